@@ -0,0 +1,42 @@
+/**
+ * Book a manual credit adjustment on a team's ledger, or reconcile the
+ * ledger with the team's counters (e.g. for teams that predate the ledger).
+ *
+ * Run: npx tsx scripts/adjust-credits.ts <teamId> <amount> "<note>"
+ *      npx tsx scripts/adjust-credits.ts <teamId> --reconcile
+ */
+
+import "dotenv/config";
+import { adjustCredits, reconcileLedger } from "../src/lib/credits";
+
+async function main() {
+  const [teamId, amountArg, note] = process.argv.slice(2);
+  if (!teamId || !amountArg) {
+    console.error('Usage: adjust-credits.ts <teamId> <amount> "<note>" | <teamId> --reconcile');
+    process.exit(1);
+  }
+
+  if (amountArg === "--reconcile") {
+    const difference = await reconcileLedger(teamId);
+    console.log(difference === 0 ? "Ledger already in sync" : `Booked adjustment of ${difference}`);
+    return;
+  }
+
+  const amount = parseInt(amountArg, 10);
+  if (!Number.isInteger(amount) || amount === 0 || !note) {
+    console.error("Amount must be a non-zero integer and a note is required");
+    process.exit(1);
+  }
+
+  const team = await adjustCredits(teamId, amount, note, null);
+  if (!team) {
+    console.error(`Team ${teamId} not found or has no credits field`);
+    process.exit(1);
+  }
+  console.log(`Adjusted team ${teamId} by ${amount} — credits now ${team.credits}`);
+}
+
+main().catch((err) => {
+  console.error("Fatal error:", err);
+  process.exit(1);
+});
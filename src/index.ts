@@ -16,6 +16,15 @@ import publicRoutes from "./routes/public";
 import floorplanRoutes from "./routes/floorplan";
 import billingRoutes from "./routes/billing";
 import contactRoutes from "./routes/contact";
+import filesRoutes from "./routes/files";
+import {
+  PERSISTENCE_BACKEND,
+  STORAGE_BACKEND,
+  LOCAL_STORAGE_DIR,
+} from "./lib/persistence";
+import { startGenerationWorker, stopGenerationWorker } from "./lib/generationWorker";
+import { startExportCleanup, stopExportCleanup } from "./lib/exports";
+import { DEFAULT_PROVIDER, LOCAL_PROVIDER_DIR } from "./lib/providers";
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -63,8 +72,10 @@ app.use((req, res, next) => {
   const authHeader = req.headers.authorization;
   const hasAuth = authHeader ? `Bearer(${authHeader.length}chars)` : "none";
   const teamId = req.headers["x-team-id"] || "no-team";
+  const apiKey = req.headers["x-api-key"];
+  const keyPrefix = typeof apiKey === "string" ? apiKey.slice(0, 12) : "none";
 
-  console.log(`📥 ${req.method} ${req.originalUrl} — ip:${ip} origin:${origin} auth:${hasAuth} team:${teamId} ua:${ua.slice(0, 80)}`);
+  console.log(`📥 ${req.method} ${req.originalUrl} — ip:${ip} origin:${origin} auth:${hasAuth} key:${keyPrefix} team:${teamId} ua:${ua.slice(0, 80)}`);
 
   // Log request body for POST/PUT/PATCH (skip large bodies and webhooks)
   if (["POST", "PUT", "PATCH"].includes(req.method) && !req.originalUrl.includes("/webhook")) {
@@ -160,6 +171,13 @@ app.use("/api/floor-plan", floorplanRoutes);
 app.use("/api/billing", billingRoutes);
 app.use("/api/contact", contactRoutes);
 
+// Local blob storage — files are served straight from disk and accept
+// signed direct uploads
+if (STORAGE_BACKEND === "local") {
+  app.use("/files", filesRoutes);
+  app.use("/files", express.static(LOCAL_STORAGE_DIR));
+}
+
 // Health check
 app.get("/api/health", (_req, res) => {
   console.log("💚 Health check pinged");
@@ -172,10 +190,14 @@ app.use((err: Error, _req: express.Request, res: express.Response, _next: expres
   res.status(500).json({ error: "Internal server error" });
 });
 
-// Validate required env vars
-const requiredVars = ["FIREBASE_STORAGE_BUCKET"];
+// Validate required env vars — Firebase credentials are only needed when a
+// Firebase-backed persistence or storage backend is selected
+const requiredVars: string[] = [];
+if (STORAGE_BACKEND === "gcs") {
+  requiredVars.push("FIREBASE_STORAGE_BUCKET");
+}
 const hasServiceAccount = !!process.env.FIREBASE_SERVICE_ACCOUNT;
-if (!hasServiceAccount) {
+if ((PERSISTENCE_BACKEND === "firestore" || STORAGE_BACKEND === "gcs") && !hasServiceAccount) {
   requiredVars.push("FIREBASE_PROJECT_ID", "FIREBASE_CLIENT_EMAIL", "FIREBASE_PRIVATE_KEY");
 }
 for (const v of requiredVars) {
@@ -186,6 +208,8 @@ for (const v of requiredVars) {
 }
 
 console.log(`🚀 Environment validated — ${requiredVars.length} required vars OK`);
+console.log(`🚀 Persistence: ${PERSISTENCE_BACKEND}, storage: ${STORAGE_BACKEND}${STORAGE_BACKEND === "local" ? ` (${LOCAL_STORAGE_DIR})` : ""}`);
+console.log(`🚀 Generation provider: ${DEFAULT_PROVIDER}${DEFAULT_PROVIDER === "local" ? ` (${LOCAL_PROVIDER_DIR})` : ""}`);
 console.log(`🚀 Allowed CORS origins: ${allowedOrigins.join(", ")}`);
 
 // Log which env vars are present (not their values)
@@ -198,10 +222,16 @@ console.log(`🚀 Env vars: ${allEnvKeys.map(k => `${k}=${process.env[k] ? "✅"
 
 const server = app.listen(PORT, () => {
   console.log(`🚀 Server running on http://localhost:${PORT}`);
+  if (process.env.GENERATION_WORKER !== "off") {
+    startGenerationWorker();
+  }
+  startExportCleanup();
 });
 
 // Graceful shutdown
 process.on("SIGTERM", () => {
   console.log("🚀 SIGTERM received, shutting down gracefully...");
+  stopGenerationWorker();
+  stopExportCleanup();
   server.close(() => process.exit(0));
 });
@@ -0,0 +1,98 @@
+import { createHash, randomBytes } from "crypto";
+import { store } from "./persistence";
+import { hasPermission, type Permission, type TeamRole } from "./teams";
+
+export const API_KEY_PREFIX = "3dt_";
+
+// Only refresh lastUsedAt once per minute to avoid a write on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export type ApiKeyScope = "read" | "write" | "generate";
+
+const SCOPE_PERMISSIONS: Record<ApiKeyScope, Permission[]> = {
+  read: ["spaces:read", "tours:read"],
+  write: ["spaces:write", "tours:write", "tours:share"],
+  generate: ["generate"],
+};
+
+export interface ApiKey {
+  id: string;
+  teamId: string;
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  createdBy: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  revokedAt: string | null;
+  revokedBy: string | null;
+}
+
+export const apiKeysRepo = store.collection<ApiKey>("apiKeys");
+
+export function generateApiKey(): { key: string; prefix: string; keyHash: string } {
+  const key = `${API_KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+  return { key, prefix: key.slice(0, 12), keyHash: hashApiKey(key) };
+}
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+export function scopesAllow(scopes: ApiKeyScope[], permission: Permission): boolean {
+  return scopes.some((scope) => SCOPE_PERMISSIONS[scope].includes(permission));
+}
+
+// Whether `role` holds every permission the scopes grant
+export function roleCoversScopes(role: TeamRole, scopes: ApiKeyScope[]): boolean {
+  return scopes.every((scope) => SCOPE_PERMISSIONS[scope].every((permission) => hasPermission(role, permission)));
+}
+
+// Strip the key hash before sending a key to a client
+export function toPublicApiKey(apiKey: ApiKey): Omit<ApiKey, "keyHash"> {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { keyHash, ...rest } = apiKey;
+  return rest;
+}
+
+export async function getApiKey(id: string): Promise<ApiKey | undefined> {
+  return apiKeysRepo.get(id);
+}
+
+export async function getApiKeyByKey(key: string): Promise<ApiKey | undefined> {
+  return apiKeysRepo.findOne({ where: [["keyHash", "==", hashApiKey(key)]] });
+}
+
+export async function getApiKeysByTeam(teamId: string): Promise<ApiKey[]> {
+  return apiKeysRepo.find({
+    where: [["teamId", "==", teamId]],
+    orderBy: { field: "createdAt", direction: "desc" },
+  });
+}
+
+export async function createApiKey(apiKey: ApiKey): Promise<ApiKey> {
+  console.log(`💾 Firestore: creating API key ${apiKey.id} (${apiKey.prefix}…) for team ${apiKey.teamId}`);
+  return apiKeysRepo.set(apiKey.id, apiKey);
+}
+
+export async function revokeApiKey(id: string, revokedBy: string): Promise<ApiKey | null> {
+  console.log(`💾 Firestore: revoking API key ${id}`);
+  return apiKeysRepo.update(id, { revokedAt: new Date().toISOString(), revokedBy });
+}
+
+export async function deleteApiKeysByTeam(teamId: string): Promise<number> {
+  const keys = await apiKeysRepo.find({ where: [["teamId", "==", teamId]] });
+  await Promise.all(keys.map((key) => apiKeysRepo.delete(key.id)));
+  return keys.length;
+}
+
+export async function touchApiKey(apiKey: ApiKey, ip: string | null): Promise<void> {
+  const last = apiKey.lastUsedAt ? new Date(apiKey.lastUsedAt).getTime() : 0;
+  if (Date.now() - last < LAST_USED_RESOLUTION_MS && apiKey.lastUsedIp === ip) return;
+  await apiKeysRepo.update(apiKey.id, {
+    lastUsedAt: new Date().toISOString(),
+    lastUsedIp: ip,
+  });
+}
@@ -0,0 +1,133 @@
+import { randomUUID } from "crypto";
+import { store, type Query } from "./persistence";
+import type { AuthContext } from "./auth";
+
+export const AUDIT_PAGE_SIZE = 50;
+export const AUDIT_MAX_PAGE_SIZE = 200;
+
+export interface AuditActor {
+  type: "user" | "api_key" | "system";
+  uid?: string;
+  apiKeyId?: string;
+}
+
+export interface AuditTarget {
+  type: "team" | "member" | "space" | "tour" | "invitation" | "api_key" | "subscription";
+  id: string;
+}
+
+export interface AuditEntry {
+  id: string;
+  teamId: string;
+  actor: AuditActor;
+  action: string;
+  target: AuditTarget;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+export interface AuditQuery {
+  action?: string;
+  actorUid?: string;
+  targetType?: string;
+  targetId?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+export function auditRepo(teamId: string) {
+  return store.collection<AuditEntry>(`teams/${teamId}/auditLog`);
+}
+
+export function actorFromContext(ctx: AuthContext): AuditActor {
+  return ctx.apiKeyId
+    ? { type: "api_key", uid: ctx.uid, apiKeyId: ctx.apiKeyId }
+    : { type: "user", uid: ctx.uid };
+}
+
+export function userActor(uid: string): AuditActor {
+  return { type: "user", uid };
+}
+
+export const SYSTEM_ACTOR: AuditActor = { type: "system" };
+
+// Reduce two snapshots to just the fields that changed
+export function diffFields(
+  before: object,
+  after: object
+): { before: Record<string, unknown>; after: Record<string, unknown> } {
+  const b = before as Record<string, unknown>;
+  const a = after as Record<string, unknown>;
+  const changedBefore: Record<string, unknown> = {};
+  const changedAfter: Record<string, unknown> = {};
+  for (const key of Object.keys(a)) {
+    if (key === "updatedAt") continue;
+    if (JSON.stringify(b[key]) !== JSON.stringify(a[key])) {
+      changedBefore[key] = b[key] ?? null;
+      changedAfter[key] = a[key] ?? null;
+    }
+  }
+  return { before: changedBefore, after: changedAfter };
+}
+
+// Append-only — entries are never updated or deleted. Failures are logged
+// rather than thrown so auditing never breaks the action being audited.
+export async function recordAudit(
+  teamId: string,
+  entry: {
+    actor: AuditActor;
+    action: string;
+    target: AuditTarget;
+    before?: object | null;
+    after?: object | null;
+  }
+): Promise<void> {
+  const id = randomUUID();
+  try {
+    const record: AuditEntry = {
+      id,
+      teamId,
+      actor: entry.actor,
+      action: entry.action,
+      target: entry.target,
+      before: (entry.before as Record<string, unknown>) ?? null,
+      after: (entry.after as Record<string, unknown>) ?? null,
+      createdAt: new Date().toISOString(),
+    };
+    // Firestore rejects undefined values anywhere in the document
+    const clean = JSON.parse(JSON.stringify(record)) as AuditEntry;
+    await auditRepo(teamId).create(id, clean);
+    console.log(`📝 Audit: ${entry.action} on ${entry.target.type} ${entry.target.id} in team ${teamId}`);
+  } catch (err) {
+    console.error(`⚠️ Failed to write audit entry ${entry.action} for team ${teamId}:`, err);
+  }
+}
+
+export async function queryAuditLog(
+  teamId: string,
+  query: AuditQuery
+): Promise<{ entries: AuditEntry[]; nextCursor: string | null }> {
+  // firestore.indexes.json has a composite index for every combination of these
+  // equality filters with createdAt — a new filter needs its combinations added there
+  const where: NonNullable<Query["where"]> = [];
+  if (query.action) where.push(["action", "==", query.action]);
+  if (query.actorUid) where.push(["actor.uid", "==", query.actorUid]);
+  if (query.targetType) where.push(["target.type", "==", query.targetType]);
+  if (query.targetId) where.push(["target.id", "==", query.targetId]);
+  if (query.since) where.push(["createdAt", ">=", query.since]);
+  if (query.until) where.push(["createdAt", "<", query.until]);
+
+  const limit = Math.min(query.limit || AUDIT_PAGE_SIZE, AUDIT_MAX_PAGE_SIZE);
+  const results = await auditRepo(teamId).find({
+    where,
+    orderBy: { field: "createdAt", direction: "desc" },
+    startAfter: query.cursor,
+    limit: limit + 1,
+  });
+  const entries = results.slice(0, limit);
+  const nextCursor = results.length > limit ? entries[entries.length - 1].id : null;
+  return { entries, nextCursor };
+}
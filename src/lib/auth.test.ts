@@ -0,0 +1,67 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Request } from "express";
+import { resolveAuthContext } from "./auth";
+import { createApiKey, generateApiKey, type ApiKeyScope } from "./apiKeys";
+import { createTeam, removeMemberFromTeam, setMemberRole } from "./teams";
+
+async function setup(teamId: string, scopes: ApiKeyScope[] = ["read", "generate"]) {
+  const now = new Date().toISOString();
+  await createTeam({
+    id: teamId,
+    name: "Test team",
+    type: "organization",
+    ownerId: "owner",
+    memberIds: ["owner", "member"],
+    inviteCode: `code-${teamId}`,
+    inviteEnabled: false,
+    createdAt: now,
+    updatedAt: now,
+  });
+  const { key, prefix, keyHash } = generateApiKey();
+  await createApiKey({
+    id: `key-${teamId}`,
+    teamId,
+    name: "CI",
+    prefix,
+    keyHash,
+    scopes,
+    createdBy: "member",
+    createdAt: now,
+    lastUsedAt: null,
+    lastUsedIp: null,
+    revokedAt: null,
+    revokedBy: null,
+  });
+  return { headers: { "x-api-key": key }, ip: "127.0.0.1", query: {} } as unknown as Request;
+}
+
+describe("resolveAuthContext with an API key", () => {
+  it("acts as the member who created the key", async () => {
+    const req = await setup("team-active");
+    const ctx = await resolveAuthContext(req);
+    assert.equal(ctx?.uid, "member");
+    assert.equal(ctx?.teamId, "team-active");
+    assert.deepEqual(ctx?.scopes, ["read", "generate"]);
+    assert.equal(ctx?.role, "editor");
+  });
+
+  it("rejects the key once its creator has been demoted below what its scopes need", async () => {
+    const req = await setup("team-demoted");
+    await setMemberRole("team-demoted", "member", "viewer");
+    assert.equal(await resolveAuthContext(req), null);
+  });
+
+  it("acts with the creator's lower role when the scopes still fit it", async () => {
+    const req = await setup("team-viewer", ["read"]);
+    await setMemberRole("team-viewer", "member", "viewer");
+    const ctx = await resolveAuthContext(req);
+    assert.equal(ctx?.role, "viewer");
+  });
+
+  it("rejects the key once its creator has been removed from the team", async () => {
+    const req = await setup("team-removed");
+    await removeMemberFromTeam("team-removed", "member");
+    assert.equal(await resolveAuthContext(req), null);
+  });
+});
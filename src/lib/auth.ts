@@ -2,11 +2,88 @@ import { Request } from "express";
 import { getAuth } from "firebase-admin/auth";
 import type { DecodedIdToken } from "firebase-admin/auth";
 import "./firebase";
-import { db } from "./firebase";
+import { getMemberRole, getTeam, hasPermission, type Permission, type TeamRole } from "./teams";
+import { isSessionRevoked } from "./sessions";
+import {
+  API_KEY_PREFIX,
+  getApiKeyByKey,
+  roleCoversScopes,
+  scopesAllow,
+  touchApiKey,
+  type ApiKeyScope,
+} from "./apiKeys";
 
 export interface AuthContext {
   uid: string;
   teamId: string;
+  role: TeamRole;
+  apiKeyId?: string;
+  scopes?: ApiKeyScope[];
+}
+
+// API keys act as an editor at most — or as their creator's role if that is
+// lower — further narrowed by their scopes
+const API_KEY_ROLE: TeamRole = "editor";
+// Weakest first
+const ROLE_ORDER: TeamRole[] = ["viewer", "editor", "admin", "owner"];
+
+function apiKeyRole(creatorRole: TeamRole): TeamRole {
+  return ROLE_ORDER.indexOf(creatorRole) < ROLE_ORDER.indexOf(API_KEY_ROLE) ? creatorRole : API_KEY_ROLE;
+}
+
+export function can(ctx: AuthContext, permission: Permission): boolean {
+  if (!hasPermission(ctx.role, permission)) return false;
+  if (ctx.scopes && !scopesAllow(ctx.scopes, permission)) return false;
+  return true;
+}
+
+async function resolveApiKeyContext(
+  req: Request,
+  key: string
+): Promise<AuthContext | null> {
+  if (!key.startsWith(API_KEY_PREFIX)) {
+    console.log("⚠️ Malformed API key");
+    return null;
+  }
+
+  const apiKey = await getApiKeyByKey(key);
+  if (!apiKey || apiKey.revokedAt) {
+    console.log(`⚠️ API key ${key.slice(0, 12)}… not found or revoked`);
+    return null;
+  }
+
+  const team = await getTeam(apiKey.teamId);
+  if (!team) {
+    console.log(`⚠️ Team ${apiKey.teamId} for API key ${apiKey.id} not found`);
+    return null;
+  }
+
+  // A key acts as the member who created it, so it stops working when they leave the team
+  const creatorRole = team.memberIds ? getMemberRole(team, apiKey.createdBy) : null;
+  if (!creatorRole) {
+    console.log(`⚠️ API key ${apiKey.id} creator ${apiKey.createdBy} is no longer a member of team ${apiKey.teamId}`);
+    return null;
+  }
+
+  // ...and it stops working when they are demoted below what its scopes need
+  const role = apiKeyRole(creatorRole);
+  if (!roleCoversScopes(role, apiKey.scopes)) {
+    console.log(`⚠️ API key ${apiKey.id} scopes ${apiKey.scopes.join(",")} exceed creator role ${creatorRole}`);
+    return null;
+  }
+
+  touchApiKey(apiKey, req.ip || null).catch((err) =>
+    console.error(`⚠️ Failed to record API key usage for ${apiKey.id}:`, err)
+  );
+
+  console.log(`🔐 API key verified — key ${apiKey.id}, team ${apiKey.teamId}, scopes ${apiKey.scopes.join(",")}`);
+  return {
+    uid: apiKey.createdBy,
+    teamId: apiKey.teamId,
+    role,
+    apiKeyId: apiKey.id,
+    scopes: apiKey.scopes,
+  };
 }
 
 export async function verifyAuthToken(
@@ -28,6 +105,10 @@ export async function verifyAuthToken(
   if (session) {
     try {
       const decoded = await getAuth().verifySessionCookie(session, true);
+      if (await isSessionRevoked(decoded.uid, session)) {
+        console.log(`⚠️ Session cookie revoked — user ${decoded.uid}`);
+        return null;
+      }
       console.log(`🔐 Session cookie verified — user ${decoded.uid}`);
       return decoded;
     } catch {
@@ -40,30 +121,38 @@ export async function verifyAuthToken(
   return null;
 }
 
+// EventSource cannot set headers, so streams may pass the team as ?teamId=
 export async function resolveAuthContext(
-  req: Request
+  req: Request,
+  options: { allowTeamQuery?: boolean } = {}
 ): Promise<AuthContext | null> {
+  // API keys are bound to a team, so they replace both the token and x-team-id
+  const apiKey = req.headers["x-api-key"] as string | undefined;
+  if (apiKey) return resolveApiKeyContext(req, apiKey);
+
   const decoded = await verifyAuthToken(req);
   if (!decoded) return null;
 
-  const teamId = req.headers["x-team-id"] as string | undefined;
+  const teamId =
+    (req.headers["x-team-id"] as string | undefined) ||
+    (options.allowTeamQuery && typeof req.query.teamId === "string" ? req.query.teamId : undefined);
   if (!teamId) {
     console.log(`⚠️ Missing x-team-id header — user ${decoded.uid}`);
     return null;
   }
 
-  const teamDoc = await db.collection("teams").doc(teamId).get();
-  if (!teamDoc.exists) {
+  const team = await getTeam(teamId);
+  if (!team) {
     console.log(`⚠️ Team ${teamId} not found — user ${decoded.uid}`);
     return null;
   }
 
-  const team = teamDoc.data();
-  if (!team?.memberIds?.includes(decoded.uid)) {
+  const role = team.memberIds ? getMemberRole(team, decoded.uid) : null;
+  if (!role) {
     console.log(`⚠️ User ${decoded.uid} is not a member of team ${teamId}`);
     return null;
   }
 
-  console.log(`🔐 Auth context resolved — user ${decoded.uid}, team ${teamId}`);
-  return { uid: decoded.uid, teamId };
+  console.log(`🔐 Auth context resolved — user ${decoded.uid}, team ${teamId}, role ${role}`);
+  return { uid: decoded.uid, teamId, role };
 }
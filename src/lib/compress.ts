@@ -1,65 +1,48 @@
 import sharp from "sharp";
-import { bucket } from "./firebase";
-
-async function downloadBuffer(url: string): Promise<Buffer> {
+import { createHash } from "crypto";
+import { createReadStream } from "fs";
+import { Duplex, Readable, Transform, pipeline } from "stream";
+import type { ReadableStream as WebReadableStream } from "stream/web";
+import { fileURLToPath } from "url";
+import { setTimeout as delay } from "timers/promises";
+import { blobs } from "./persistence";
+import type { WorldOutput } from "./providers";
+import type { AssetIngestion, AssetKey } from "./operations";
+
+// Body of a remote asset as a stream — never held in memory as a whole
+async function openDownload(url: string): Promise<Readable> {
+  // The local provider hands out file:// URLs to its canned assets
+  if (url.startsWith("file://")) return createReadStream(fileURLToPath(url));
   const res = await fetch(url);
-  if (!res.ok) throw new Error(`Download failed: ${url}`);
-  return Buffer.from(await res.arrayBuffer());
+  if (!res.ok || !res.body) throw new Error(`Download failed: ${url}`);
+  return Readable.fromWeb(res.body as WebReadableStream<Uint8Array>);
 }
 
-async function uploadToStorage(
-  buffer: Buffer,
-  path: string,
-  contentType: string
-): Promise<string> {
-  const file = bucket.file(path);
-  await file.save(buffer, { contentType, public: true });
-  return `https://storage.googleapis.com/${bucket.name}/${path}`;
+// Pass-through that hashes and counts bytes on their way to storage
+function meter(): { stream: Transform; digest: () => { sha256: string; size: number } } {
+  const hash = createHash("sha256");
+  let size = 0;
+  const stream = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      hash.update(chunk);
+      size += chunk.length;
+      callback(null, chunk);
+    },
+  });
+  return { stream, digest: () => ({ sha256: hash.digest("hex"), size }) };
 }
 
-async function compressImage(
-  url: string,
-  spaceId: string,
-  name: string,
-  maxWidth?: number
-): Promise<string> {
-  const raw = await downloadBuffer(url);
-  let pipeline = sharp(raw);
+function compressImage(maxWidth?: number): Duplex {
+  let transformer = sharp();
 
   if (maxWidth) {
-    pipeline = pipeline.resize({ width: maxWidth, withoutEnlargement: true });
+    transformer = transformer.resize({ width: maxWidth, withoutEnlargement: true });
   }
 
-  const compressed = await pipeline.webp({ quality: 82 }).toBuffer();
-  return uploadToStorage(compressed, `models/${spaceId}/${name}.webp`, "image/webp");
-}
-
-async function reuploadBinary(
-  url: string,
-  spaceId: string,
-  name: string,
-  contentType: string
-): Promise<string> {
-  const buffer = await downloadBuffer(url);
-  return uploadToStorage(buffer, `models/${spaceId}/${name}`, contentType);
+  return transformer.webp({ quality: 82 });
 }
 
-interface WorldAssets {
-  thumbnail_url?: string;
-  panorama_url?: string;
-  splats?: {
-    spz_urls?: {
-      full_res?: string;
-      "500k"?: string;
-      "100k"?: string;
-    };
-  };
-  mesh?: {
-    glb_url?: string;
-  };
-}
-
-interface CompressedUrls {
+export interface CompressedUrls {
   thumbnailUrl?: string;
   panoramaUrl?: string;
   splatUrl?: string;
@@ -68,67 +51,134 @@ interface CompressedUrls {
   meshUrl?: string;
 }
 
-export async function compressAndUploadAssets(
-  spaceId: string,
-  assets: WorldAssets
-): Promise<CompressedUrls> {
-  console.log(`📦 Compressing assets for space ${spaceId}`);
-  const tasks: Promise<void>[] = [];
-  const result: CompressedUrls = {};
-
-  if (assets.thumbnail_url) {
-    tasks.push(
-      compressImage(assets.thumbnail_url, spaceId, "thumbnail", 800).then(
-        (url) => { console.log(`📦 Thumbnail compressed (800px)`); result.thumbnailUrl = url; }
-      )
-    );
-  }
-
-  if (assets.panorama_url) {
-    tasks.push(
-      compressImage(assets.panorama_url, spaceId, "panorama").then(
-        (url) => { console.log("📦 Panorama uploaded"); result.panoramaUrl = url; }
-      )
-    );
-  }
-
-  const splatUrl =
-    assets.splats?.spz_urls?.full_res ||
-    assets.splats?.spz_urls?.["500k"] ||
-    assets.splats?.spz_urls?.["100k"];
+// A failed download or upload is retried this many times, backing off in between
+const ASSET_ATTEMPTS = 3;
+const ASSET_RETRY_DELAY_MS = 2000;
+
+// Without these the world cannot be viewed — other assets are optional
+const REQUIRED_ASSETS: AssetKey[] = ["splat"];
+
+interface AssetTask {
+  key: AssetKey;
+  field: keyof CompressedUrls;
+  sourceUrl: string;
+  name: string;
+  contentType: string;
+  // Images are re-encoded as WebP, binaries copied as-is
+  image?: { maxWidth?: number };
+}
 
-  if (splatUrl) {
-    tasks.push(
-      reuploadBinary(splatUrl, spaceId, "model.spz", "application/octet-stream").then(
-        (url) => { console.log("📦 Splat uploaded: full-res"); result.splatUrl = url; }
-      )
-    );
-  }
+function planAssets(assets: WorldOutput): AssetTask[] {
+  const binary = "application/octet-stream";
+  const candidates: (AssetTask | false)[] = [
+    !!assets.thumbnailUrl && {
+      key: "thumbnail", field: "thumbnailUrl", sourceUrl: assets.thumbnailUrl,
+      name: "thumbnail.webp", contentType: "image/webp", image: { maxWidth: 800 },
+    },
+    !!assets.panoramaUrl && {
+      key: "panorama", field: "panoramaUrl", sourceUrl: assets.panoramaUrl,
+      name: "panorama.webp", contentType: "image/webp", image: {},
+    },
+  ];
+
+  const splatUrl = assets.splatUrls?.full || assets.splatUrls?.["500k"] || assets.splatUrls?.["100k"];
+  candidates.push(
+    !!splatUrl && { key: "splat", field: "splatUrl", sourceUrl: splatUrl, name: "model.spz", contentType: binary },
+    !!assets.splatUrls?.["500k"] && {
+      key: "splat-500k", field: "splatUrl500k", sourceUrl: assets.splatUrls["500k"],
+      name: "model-500k.spz", contentType: binary,
+    },
+    !!assets.splatUrls?.["100k"] && {
+      key: "splat-100k", field: "splatUrl100k", sourceUrl: assets.splatUrls["100k"],
+      name: "model-100k.spz", contentType: binary,
+    },
+    !!assets.meshUrl && {
+      key: "mesh", field: "meshUrl", sourceUrl: assets.meshUrl, name: "model.glb", contentType: "model/gltf-binary",
+    }
+  );
+  return candidates.filter((task): task is AssetTask => !!task);
+}
 
-  if (assets.splats?.spz_urls?.["500k"]) {
-    tasks.push(
-      reuploadBinary(assets.splats.spz_urls["500k"], spaceId, "model-500k.spz", "application/octet-stream").then(
-        (url) => { console.log("📦 Splat uploaded: 500k"); result.splatUrl500k = url; }
-      )
-    );
-  }
+// download → (re-encode) → hash/size → storage, one chunk at a time
+async function ingestAsset(task: AssetTask, assetPath: string): Promise<Omit<AssetIngestion, "attempts" | "updatedAt">> {
+  const source = await openDownload(task.sourceUrl);
+  const counter = meter();
+  // Any stage failing destroys the others, which rejects the storage write
+  const noop = () => {};
+  const body = task.image
+    ? pipeline(source, compressImage(task.image.maxWidth), counter.stream, noop)
+    : pipeline(source, counter.stream, noop);
+
+  const path = `${assetPath}/${task.name}`;
+  const url = await blobs.saveStream(path, body, { contentType: task.contentType, public: true });
+  return { status: "done", url, path, ...counter.digest() };
+}
 
-  if (assets.splats?.spz_urls?.["100k"]) {
-    tasks.push(
-      reuploadBinary(assets.splats.spz_urls["100k"], spaceId, "model-100k.spz", "application/octet-stream").then(
-        (url) => { console.log("📦 Splat uploaded: 100k"); result.splatUrl100k = url; }
-      )
-    );
-  }
+export interface IngestionResult {
+  urls: CompressedUrls;
+  assets: Partial<Record<AssetKey, AssetIngestion>>;
+  // Keys that failed every attempt
+  failed: AssetKey[];
+  // A required asset is among the failed ones
+  incomplete: boolean;
+}
 
-  if (assets.mesh?.glb_url) {
-    tasks.push(
-      reuploadBinary(assets.mesh.glb_url, spaceId, "model.glb", "model/gltf-binary").then(
-        (url) => { console.log("📦 Mesh uploaded"); result.meshUrl = url; }
-      )
+// Copy a world's assets into our storage, one independent task per asset.
+// Assets already marked done in `previous` (an earlier run for the same
+// operation) are skipped, so a rerun only transfers what is still missing.
+export async function compressAndUploadAssets(
+  assetPath: string,
+  assets: WorldOutput,
+  options: {
+    previous?: Partial<Record<AssetKey, AssetIngestion>>;
+    onProgress?: (step: string, urls: CompressedUrls) => void;
+    // Called as each asset settles, to persist progress
+    onAsset?: (key: AssetKey, record: AssetIngestion) => Promise<void>;
+  } = {}
+): Promise<IngestionResult> {
+  const { previous = {}, onProgress, onAsset } = options;
+  console.log(`📦 Compressing assets to ${assetPath}`);
+  const result: IngestionResult = { urls: {}, assets: {}, failed: [], incomplete: false };
+
+  const tasks = planAssets(assets).map(async (task) => {
+    const done = previous[task.key];
+    if (done?.status === "done" && done.url) {
+      console.log(`📦 ${task.key} already ingested — skipping`);
+      result.urls[task.field] = done.url;
+      result.assets[task.key] = done;
+      return;
+    }
+
+    let attempts = done?.attempts ?? 0;
+    let record: AssetIngestion | undefined;
+    for (let attempt = 1; attempt <= ASSET_ATTEMPTS; attempt++) {
+      attempts += 1;
+      try {
+        const ingested = await ingestAsset(task, assetPath);
+        record = { ...ingested, attempts, updatedAt: new Date().toISOString() };
+        break;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        console.error(`❌ ${task.key} ingestion failed (attempt ${attempt}/${ASSET_ATTEMPTS}):`, message);
+        record = { status: "failed", error: message, attempts, updatedAt: new Date().toISOString() };
+        if (attempt < ASSET_ATTEMPTS) await delay(ASSET_RETRY_DELAY_MS * 2 ** (attempt - 1));
+      }
+    }
+
+    result.assets[task.key] = record!;
+    if (record!.status === "done") {
+      console.log(`📦 ${task.key} uploaded (${record!.size} bytes)`);
+      result.urls[task.field] = record!.url;
+      onProgress?.(task.key, { ...result.urls });
+    } else {
+      result.failed.push(task.key);
+    }
+    await onAsset?.(task.key, record!).catch((err) =>
+      console.error(`❌ Failed to record ${task.key} ingestion:`, err)
     );
-  }
+  });
 
   await Promise.all(tasks);
+  result.incomplete = result.failed.some((key) => REQUIRED_ASSETS.includes(key));
   return result;
 }
@@ -0,0 +1,304 @@
+import { randomUUID } from "crypto";
+import { store, spacesRepo, teamsRepo } from "./persistence";
+import { operationsRepo } from "./operations";
+import { buildLedgerEntry, getLedgerBalance, ledgerRepo } from "./ledger";
+import type { Team } from "./teams";
+
+// A credit is held when a generation is requested, committed once the world
+// is ingested and released on any failure, so failed renders cost nothing
+export interface CreditReservation {
+  id: string;
+  teamId: string;
+  spaceId: string;
+  // 0 for legacy teams without credits — kept so every path settles the same way
+  amount: number;
+  status: "held" | "committed" | "released";
+  reservedBy: string;
+  operationId?: string;
+  reason?: string;
+  createdAt: string;
+  settledAt?: string;
+}
+
+export const reservationsRepo = store.collection<CreditReservation>("creditReservations");
+
+export function creditsRemaining(team: { credits?: number; creditsUsed?: number; creditsReserved?: number }): number {
+  return (team.credits ?? 0) - (team.creditsUsed ?? 0) - (team.creditsReserved ?? 0);
+}
+
+// Returns null when the team has no credits left
+export async function reserveCredit(
+  teamId: string,
+  spaceId: string,
+  uid: string
+): Promise<CreditReservation | null> {
+  return store.runTransaction(async (tx) => {
+    const team = await tx.get(teamsRepo, teamId);
+    if (!team) return null;
+
+    const legacy = team.credits === undefined; // pre-billing team — no limits
+    if (!legacy && creditsRemaining(team) <= 0) return null;
+
+    const reservation: CreditReservation = {
+      id: randomUUID(),
+      teamId,
+      spaceId,
+      amount: legacy ? 0 : 1,
+      status: "held",
+      reservedBy: uid,
+      createdAt: new Date().toISOString(),
+    };
+    tx.set(reservationsRepo, reservation.id, reservation);
+    if (!legacy) {
+      const creditsReserved = (team.creditsReserved ?? 0) + 1;
+      tx.update(teamsRepo, teamId, { creditsReserved });
+      // The ledger debits at hold time and refunds on release
+      const entry = buildLedgerEntry(teamId, {
+        type: "debit",
+        amount: -1,
+        balanceAfter: creditsRemaining({ ...team, creditsReserved }),
+        reference: { spaceId, reservationId: reservation.id },
+        createdBy: uid,
+      });
+      tx.set(ledgerRepo(teamId), entry.id, entry);
+    }
+    console.log(`💳 Credit reserved — team ${teamId}, space ${spaceId}, reservation ${reservation.id}`);
+    return reservation;
+  });
+}
+
+async function settleCredit(
+  reservationId: string,
+  outcome: "committed" | "released",
+  reason?: string,
+  operationId?: string
+): Promise<CreditReservation | null> {
+  return store.runTransaction(async (tx) => {
+    const reservation = await tx.get(reservationsRepo, reservationId);
+    if (!reservation || reservation.status !== "held") return null;
+    const team = await tx.get(teamsRepo, reservation.teamId);
+    const space = await tx.get(spacesRepo, reservation.spaceId);
+
+    const settled: CreditReservation = {
+      ...reservation,
+      status: outcome,
+      settledAt: new Date().toISOString(),
+      ...(reason ? { reason } : {}),
+      ...(operationId ? { operationId } : {}),
+    };
+    tx.set(reservationsRepo, reservationId, settled);
+
+    if (team && reservation.amount > 0) {
+      const reserved = Math.max(0, (team.creditsReserved ?? 0) - reservation.amount);
+      const updates: Partial<Team> =
+        outcome === "committed"
+          ? { creditsReserved: reserved, creditsUsed: (team.creditsUsed ?? 0) + reservation.amount }
+          : { creditsReserved: reserved };
+      tx.update(teamsRepo, team.id, updates);
+
+      if (outcome === "released") {
+        const entry = buildLedgerEntry(team.id, {
+          type: "refund",
+          amount: reservation.amount,
+          balanceAfter: creditsRemaining({ ...team, ...updates }),
+          reference: {
+            spaceId: reservation.spaceId,
+            reservationId,
+            operationId: operationId || reservation.operationId,
+          },
+          note: reason,
+        });
+        tx.set(ledgerRepo(team.id), entry.id, entry);
+      }
+    }
+
+    // Shown on the space so the customer can see the render was not charged
+    if (space && outcome === "released" && reservation.amount > 0) {
+      tx.update(spacesRepo, space.id, {
+        creditsReleased: (space.creditsReleased ?? 0) + reservation.amount,
+      });
+    }
+    return settled;
+  });
+}
+
+export async function commitCredit(
+  reservationId: string,
+  operationId?: string
+): Promise<CreditReservation | null> {
+  const settled = await settleCredit(reservationId, "committed", undefined, operationId);
+  if (settled) console.log(`💳 Credit committed — reservation ${reservationId}`);
+  return settled;
+}
+
+export async function releaseCredit(
+  reservationId: string,
+  reason: string,
+  operationId?: string
+): Promise<CreditReservation | null> {
+  const settled = await settleCredit(reservationId, "released", reason, operationId);
+  if (settled) console.log(`💳 Credit released — reservation ${reservationId}: ${reason}`);
+  return settled;
+}
+
+// Settle holds the worker never got to (e.g. the process died mid-generation),
+// following the outcome of their operation when there is one
+export async function settleStaleReservations(olderThanMs: number): Promise<number> {
+  const cutoff = new Date(Date.now() - olderThanMs).toISOString();
+  const stale = await reservationsRepo.find({
+    where: [
+      ["status", "==", "held"],
+      ["createdAt", "<", cutoff],
+    ],
+  });
+
+  for (const reservation of stale) {
+    const operation = await operationsRepo.findOne({ where: [["reservationId", "==", reservation.id]] });
+    if (operation?.status === "succeeded") {
+      await commitCredit(reservation.id, operation.id);
+    } else {
+      await releaseCredit(reservation.id, operation?.errorMessage || "Generation abandoned", operation?.id);
+    }
+  }
+  return stale.length;
+}
+
+export async function deleteReservationsByTeam(teamId: string): Promise<number> {
+  const reservations = await reservationsRepo.find({ where: [["teamId", "==", teamId]] });
+  await Promise.all(reservations.map((r) => reservationsRepo.delete(r.id)));
+  return reservations.length;
+}
+
+// Start a new credit period from a Stripe event: unused credits from the old
+// period expire and `qty` fresh ones are granted. Holds carry over and draw
+// on the new period. Returns false when the event was already applied.
+export async function resetCredits(
+  teamId: string,
+  qty: number,
+  source: { type: "grant" | "renewal"; stripeEventId: string },
+  teamUpdates: Partial<Team> = {}
+): Promise<boolean> {
+  const ledger = ledgerRepo(teamId);
+  const grantId = `${source.stripeEventId}-${source.type}`;
+  return store.runTransaction(async (tx) => {
+    const team = await tx.get(teamsRepo, teamId);
+    if (!team) return false;
+    if (await tx.get(ledger, grantId)) {
+      console.log(`💳 Stripe event ${source.stripeEventId} already applied to team ${teamId}`);
+      return false;
+    }
+
+    const reference = { stripeEventId: source.stripeEventId };
+    const unused = (team.credits ?? 0) - (team.creditsUsed ?? 0);
+    const after = { ...team, ...teamUpdates, credits: qty, creditsUsed: 0 };
+
+    if (unused !== 0) {
+      const expiration = buildLedgerEntry(teamId, {
+        id: `${source.stripeEventId}-expiration`,
+        type: "expiration",
+        amount: -unused,
+        balanceAfter: -(team.creditsReserved ?? 0),
+        reference,
+      });
+      tx.set(ledger, expiration.id, expiration);
+    }
+    const grant = buildLedgerEntry(teamId, {
+      id: grantId,
+      type: source.type,
+      amount: qty,
+      balanceAfter: creditsRemaining(after),
+      reference,
+    });
+    tx.set(ledger, grant.id, grant);
+
+    tx.update(teamsRepo, teamId, {
+      ...teamUpdates,
+      credits: qty,
+      creditsUsed: 0,
+      updatedAt: new Date().toISOString(),
+    });
+    return true;
+  });
+}
+
+// End the credit period without a new one — subscription cancelled
+export async function expireCredits(
+  teamId: string,
+  stripeEventId: string,
+  teamUpdates: Partial<Team> = {}
+): Promise<boolean> {
+  const ledger = ledgerRepo(teamId);
+  const entryId = `${stripeEventId}-expiration`;
+  return store.runTransaction(async (tx) => {
+    const team = await tx.get(teamsRepo, teamId);
+    if (!team) return false;
+    if (await tx.get(ledger, entryId)) return false;
+
+    const unused = (team.credits ?? 0) - (team.creditsUsed ?? 0);
+    if (unused !== 0) {
+      const expiration = buildLedgerEntry(teamId, {
+        id: entryId,
+        type: "expiration",
+        amount: -unused,
+        balanceAfter: -(team.creditsReserved ?? 0),
+        reference: { stripeEventId },
+      });
+      tx.set(ledger, expiration.id, expiration);
+    }
+
+    tx.update(teamsRepo, teamId, {
+      ...teamUpdates,
+      credits: 0,
+      creditsUsed: 0,
+      updatedAt: new Date().toISOString(),
+    });
+    return true;
+  });
+}
+
+// Support-issued correction. Legacy teams without credits are left alone.
+export async function adjustCredits(
+  teamId: string,
+  amount: number,
+  note: string,
+  createdBy: string | null
+): Promise<Team | null> {
+  return store.runTransaction(async (tx) => {
+    const team = await tx.get(teamsRepo, teamId);
+    if (!team || team.credits === undefined) return null;
+
+    const updates = { credits: team.credits + amount, updatedAt: new Date().toISOString() };
+    const entry = buildLedgerEntry(teamId, {
+      type: "adjustment",
+      amount,
+      balanceAfter: creditsRemaining({ ...team, ...updates }),
+      reference: {},
+      note,
+      createdBy,
+    });
+    tx.set(ledgerRepo(teamId), entry.id, entry);
+    tx.update(teamsRepo, teamId, updates);
+    return { ...team, ...updates };
+  });
+}
+
+// Book any difference between the team counters and the ledger (e.g. teams
+// that predate the ledger) as an adjustment that leaves the counters as-is
+export async function reconcileLedger(teamId: string): Promise<number> {
+  const team = await teamsRepo.get(teamId);
+  if (!team || team.credits === undefined) return 0;
+
+  const difference = creditsRemaining(team) - (await getLedgerBalance(teamId));
+  if (difference === 0) return 0;
+
+  const entry = buildLedgerEntry(teamId, {
+    type: "adjustment",
+    amount: difference,
+    balanceAfter: creditsRemaining(team),
+    reference: {},
+    note: "Reconciliation with team balance",
+  });
+  await ledgerRepo(teamId).create(entry.id, entry);
+  console.log(`💳 Reconciled ledger for team ${teamId} — adjustment of ${difference}`);
+  return difference;
+}
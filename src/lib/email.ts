@@ -0,0 +1,55 @@
+import sgMail from "@sendgrid/mail";
+
+const apiKey = process.env.SENDGRID_API_KEY;
+if (apiKey) {
+  sgMail.setApiKey(apiKey);
+  console.log(`📧 SendGrid API key loaded (${apiKey.slice(0, 5)}...${apiKey.slice(-4)}, ${apiKey.length} chars)`);
+} else {
+  console.error("❌ SENDGRID_API_KEY is not set — outgoing emails will fail");
+}
+
+const FRONTEND_URL = process.env.FRONTEND_URL || "http://localhost:3000";
+
+export const FROM = { email: "noreply@code-callfy.com", name: "AI Floor Planner" };
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export async function sendInvitationEmail(params: {
+  to: string;
+  teamName: string;
+  inviterName: string;
+  role: string;
+  token: string;
+  expiresAt: string;
+}): Promise<void> {
+  const link = `${FRONTEND_URL}/join?invitation=${encodeURIComponent(params.token)}`;
+  const expires = new Date(params.expiresAt).toUTCString();
+
+  const msg = {
+    to: params.to,
+    from: FROM,
+    subject: `${params.inviterName} invited you to join ${params.teamName}`,
+    text: `${params.inviterName} invited you to join "${params.teamName}" as ${params.role}.\n\nAccept the invitation: ${link}\n\nThis link can be used once and expires ${expires}.`,
+    html: `
+      <div style="font-family: sans-serif; max-width: 600px;">
+        <h2 style="color: #171717;">You're invited to ${escapeHtml(params.teamName)}</h2>
+        <p>${escapeHtml(params.inviterName)} invited you to join as <strong>${escapeHtml(params.role)}</strong>.</p>
+        <p><a href="${link}">Accept invitation</a></p>
+        <hr style="border: none; border-top: 1px solid #e5e5e5; margin: 16px 0;" />
+        <p style="color: #737373;">This link can be used once and expires ${expires}.</p>
+      </div>
+    `,
+  };
+
+  console.log(`📧 Sending invitation via SendGrid — to: ${params.to}, team: "${params.teamName}"`);
+  const [response] = await sgMail.send(msg);
+  console.log(`📧 SendGrid response — status: ${response.statusCode}`);
+}
+
+export { sgMail };
@@ -0,0 +1,186 @@
+import { gzipSync } from "zlib";
+import { blobs, spacesRepo, store, teamsRepo, toursRepo } from "./persistence";
+import { getMemberRole } from "./teams";
+import { getUser } from "./users";
+import { sessionsRepo } from "./sessions";
+import { apiKeysRepo } from "./apiKeys";
+
+export const EXPORT_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const DOWNLOAD_URL_TTL_MS = 60 * 60 * 1000; // 1 hour
+// Builds take seconds — one still "building" after this died with its process
+const BUILD_TIMEOUT_MS = 10 * 60 * 1000; // 10 minutes
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+let cleanupTimer: NodeJS.Timeout | null = null;
+
+export interface DataExport {
+  id: string;
+  uid: string;
+  status: "building" | "ready" | "failed";
+  path: string;
+  sizeBytes?: number;
+  errorMessage?: string;
+  createdAt: string;
+  completedAt?: string;
+  expiresAt: string;
+}
+
+export function exportsRepo(uid: string) {
+  return store.collection<DataExport>(`users/${uid}/exports`);
+}
+
+export function exportPath(uid: string, id: string): string {
+  return `exports/${uid}/${id}.json.gz`;
+}
+
+export async function createExport(dataExport: DataExport): Promise<DataExport> {
+  console.log(`💾 Firestore: creating export ${dataExport.id} for user ${dataExport.uid}`);
+  return exportsRepo(dataExport.uid).set(dataExport.id, dataExport);
+}
+
+export async function getExport(uid: string, id: string): Promise<DataExport | undefined> {
+  return exportsRepo(uid).get(id);
+}
+
+export async function getLatestExport(uid: string): Promise<DataExport | undefined> {
+  return exportsRepo(uid).findOne({ orderBy: { field: "createdAt", direction: "desc" } });
+}
+
+async function updateExport(uid: string, id: string, updates: Partial<DataExport>): Promise<void> {
+  console.log(`💾 Firestore: updating export ${id} — keys: ${Object.keys(updates).join(", ")}`);
+  await exportsRepo(uid).merge(id, updates);
+}
+
+export async function getExportDownloadUrl(dataExport: DataExport): Promise<string> {
+  return blobs.signedReadUrl(dataExport.path, {
+    expiresInMs: DOWNLOAD_URL_TTL_MS,
+    filename: `3dtourio-export-${dataExport.id}.json.gz`,
+  });
+}
+
+// Mark an export whose build was interrupted (restart, crash) as failed, so a
+// new one can be requested instead of waiting for it to expire
+export async function failStalledExport(dataExport: DataExport): Promise<DataExport> {
+  if (dataExport.status !== "building") return dataExport;
+  if (Date.now() - new Date(dataExport.createdAt).getTime() < BUILD_TIMEOUT_MS) return dataExport;
+
+  const updates = { status: "failed" as const, errorMessage: "Export build was interrupted — request a new one" };
+  await updateExport(dataExport.uid, dataExport.id, updates);
+  console.log(`⚠️ Data export ${dataExport.id} stalled while building — marked failed`);
+  return { ...dataExport, ...updates };
+}
+
+// Remove archives past their expiry — they are only meant to live briefly
+export async function deleteExpiredExports(uid: string): Promise<void> {
+  const now = new Date().toISOString();
+  const repo = exportsRepo(uid);
+  const expired = await repo.find({ where: [["expiresAt", "<=", now]] });
+  for (const dataExport of expired) {
+    await blobs.delete(dataExport.path);
+    await repo.delete(dataExport.id);
+  }
+  if (expired.length > 0) {
+    console.log(`🗑️ Deleted ${expired.length} expired exports for user ${uid}`);
+  }
+}
+
+// Archives live under exports/{uid}/, so listing them finds every user with exports
+async function sweepExpiredExports(): Promise<void> {
+  try {
+    const archives = await blobs.list("exports/");
+    const uids = new Set(archives.map((archive) => archive.path.split("/")[1]).filter(Boolean));
+    for (const uid of uids) {
+      await deleteExpiredExports(uid);
+    }
+  } catch (err) {
+    console.error("❌ Export cleanup failed:", err);
+  }
+}
+
+export function startExportCleanup(): void {
+  if (cleanupTimer) return;
+  sweepExpiredExports();
+  cleanupTimer = setInterval(sweepExpiredExports, CLEANUP_INTERVAL_MS);
+}
+
+export function stopExportCleanup(): void {
+  if (cleanupTimer) clearInterval(cleanupTimer);
+  cleanupTimer = null;
+}
+
+async function listImages(spaceId: string): Promise<{ name: string; url: string; sizeBytes: number }[]> {
+  const files = await blobs.list(`images/${spaceId}/`);
+  return files.map((f) => ({
+    name: f.path,
+    url: blobs.publicUrl(f.path),
+    sizeBytes: f.size,
+  }));
+}
+
+async function collectUserData(uid: string): Promise<Record<string, unknown>> {
+  const user = await getUser(uid);
+
+  const teams = await teamsRepo.find({ where: [["memberIds", "array-contains", uid]] });
+  const memberships = teams.map((team) => ({
+    teamId: team.id,
+    name: team.name,
+    type: team.type,
+    role: getMemberRole(team, uid),
+    ownerId: team.ownerId,
+  }));
+
+  const createdSpaces = await spacesRepo.find({ where: [["createdBy", "==", uid]] });
+  const spaces = await Promise.all(
+    createdSpaces.map(async (space) => ({
+      ...space,
+      revisions: space.revisions || [],
+      images: await listImages(space.id),
+    }))
+  );
+
+  const tours = await toursRepo.find({ where: [["createdBy", "==", uid]] });
+
+  const sessions = await sessionsRepo(uid).find();
+
+  const createdKeys = await apiKeysRepo.find({ where: [["createdBy", "==", uid]] });
+  const apiKeys = createdKeys.map((key) => {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { keyHash, ...rest } = key;
+    return rest;
+  });
+
+  return {
+    exportedAt: new Date().toISOString(),
+    user: user || null,
+    memberships,
+    spaces,
+    tours,
+    sessions,
+    apiKeys,
+  };
+}
+
+export async function buildExport(uid: string, id: string): Promise<void> {
+  console.log(`📦 Building data export ${id} for user ${uid}`);
+  try {
+    const data = await collectUserData(uid);
+    const archive = gzipSync(Buffer.from(JSON.stringify(data, null, 2)));
+    const path = exportPath(uid, id);
+
+    await blobs.save(path, archive, {
+      contentType: "application/gzip",
+      cacheControl: "private, no-store",
+    });
+
+    await updateExport(uid, id, {
+      status: "ready",
+      sizeBytes: archive.length,
+      completedAt: new Date().toISOString(),
+    });
+    console.log(`📦 Data export ${id} ready — ${archive.length} bytes`);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    console.error(`❌ Data export ${id} failed:`, message);
+    await updateExport(uid, id, { status: "failed", errorMessage: message });
+  }
+}
@@ -0,0 +1,217 @@
+import sharp from "sharp";
+import { updateSpace, type Space } from "./storage";
+import {
+  createOperation,
+  generationAssetPath,
+  getOperationRecord,
+  operationsRepo,
+  pickOutputs,
+  withOutputs,
+  type GenerationImage,
+  type GenerationInput,
+  type GenerationOperation,
+} from "./operations";
+import { releaseCredit } from "./credits";
+import { trackGeneration, untrackGeneration } from "./generationWorker";
+import { publishSpaceEvent, spaceEvent } from "./spaceEvents";
+import { store, spacesRepo } from "./persistence";
+import { getProvider, type GenerationProvider, type ResolvedModel } from "./providers";
+import type { ResolvedPrompt } from "./prompts";
+
+export async function downloadImage(url: string): Promise<Buffer> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Download failed: ${url}`);
+  return Buffer.from(await res.arrayBuffer());
+}
+
+export type ImageMode = "auto" | "single" | "multi" | "panorama";
+
+// Prompt part of an operation's input — the template and variables are kept
+// alongside the rendered text so a result can be reproduced
+function promptFields(prompt: ResolvedPrompt): Pick<GenerationInput, "textPrompt" | "promptTemplate" | "promptVariables"> {
+  return { textPrompt: prompt.text, promptTemplate: prompt.template, promptVariables: prompt.variables };
+}
+
+export function buildTextInput(prompt: ResolvedPrompt): GenerationInput {
+  return { type: "text", ...promptFields(prompt) };
+}
+
+// Equirectangular panoramas are 2:1 — formats sharp cannot read are treated as photos
+async function isPanorama(image: Buffer | string): Promise<boolean> {
+  const { width, height } = await sharp(image).metadata().catch(() => ({ width: 0, height: 0 }));
+  return !!width && !!height && Math.abs(width / height - 2) < 0.05;
+}
+
+// Keep `max` photos spread evenly over the shooting order, always including the first
+function spreadEvenly<T>(items: T[], max: number): T[] {
+  if (items.length <= max) return items;
+  return Array.from({ length: max }, (_, i) => items[Math.round((i * (items.length - 1)) / (max - 1))]);
+}
+
+// Build the prompt for uploaded photos. "auto" sends a lone 2:1 photo as a
+// panorama and several photos as one multi-view prompt; without azimuths the
+// photos are assumed to be shot in a full circle, in upload order.
+export async function buildImageInput(
+  provider: GenerationProvider,
+  mode: ImageMode,
+  prompt: ResolvedPrompt,
+  imageUrls: string[],
+  // firstImage is the bytes or local file path of the first photo
+  options: { firstImage?: Buffer | string; azimuths?: number[] } = {}
+): Promise<GenerationInput> {
+  const { capabilities } = provider;
+
+  const panorama =
+    mode === "panorama" ||
+    (mode === "auto" &&
+      imageUrls.length === 1 &&
+      capabilities.panoramaInput &&
+      !!options.firstImage &&
+      (await isPanorama(options.firstImage)));
+  if (panorama) return { type: "panorama", ...promptFields(prompt), imageUrl: imageUrls[0] };
+
+  const multi = mode === "multi" || (mode === "auto" && imageUrls.length > 1 && capabilities.multiImage);
+  if (!multi) return { type: "image", ...promptFields(prompt), imageUrl: imageUrls[0] };
+
+  const views = imageUrls.map((url, i) => ({
+    url,
+    azimuth: options.azimuths?.[i] ?? Math.round((360 * i) / imageUrls.length),
+  }));
+  const images: GenerationImage[] = spreadEvenly(views, capabilities.maxImages);
+  return { type: "multi-image", ...promptFields(prompt), images };
+}
+
+// Worlds finished before generation history was kept only live on the space —
+// copy them onto their operation before a new run replaces them
+async function preserveCurrentOutputs(space: Space): Promise<void> {
+  if (space.status !== "ready" || !space.operationId || space.currentOperationId) return;
+  const operation = await getOperationRecord(space.operationId);
+  if (!operation || operation.outputs) return;
+  await operationsRepo.update(operation.id, { outputs: pickOutputs(space) });
+  console.log(`🎨 Preserved outputs of operation ${operation.id} for space ${space.id}`);
+}
+
+// Submit a generation to the model's provider and hand the space to the
+// worker. The credit hold travels on the operation record — the worker settles it.
+export async function startGeneration(
+  space: Space,
+  options: {
+    uid: string;
+    model: ResolvedModel;
+    input: GenerationInput;
+    reservationId: string;
+    // Already at hand when the route read the photo — otherwise fetched from input.imageUrl
+    imageBase64?: string;
+  }
+): Promise<GenerationOperation> {
+  const { input } = options;
+  const { provider, model } = options.model;
+
+  const imageBase64 =
+    input.type === "image" || input.type === "panorama"
+      ? options.imageBase64 ?? (await downloadImage(input.imageUrl!)).toString("base64")
+      : undefined;
+  const operationId = await provider.submit({ model: model.id, input, imageBase64 });
+
+  await preserveCurrentOutputs(space);
+
+  const startedAt = new Date().toISOString();
+  const operation = await createOperation({
+    id: operationId,
+    spaceId: space.id,
+    teamId: space.teamId,
+    provider: provider.id,
+    model: model.id,
+    input,
+    status: "running",
+    startedBy: options.uid,
+    reservationId: options.reservationId,
+    assetPath: generationAssetPath(space.id, operationId),
+    startedAt,
+  });
+
+  const generating = await updateSpace(space.id, {
+    operationId,
+    status: "generating",
+    generationStartedAt: startedAt,
+    generationPrompt: input.textPrompt,
+  });
+  trackGeneration(space.id, operationId);
+  if (generating) publishSpaceEvent(spaceEvent(generating, "generating"));
+
+  console.log(`🎨 Generation started — space ${space.id}, ${provider.id} model: ${model.id}`);
+  return operation;
+}
+
+// Abandon the running generation of a space. The operation is marked cancelled
+// so any late result is ignored; providers that can also stop the work are told to.
+export async function cancelGeneration(
+  spaceId: string,
+  uid: string
+): Promise<{ space: Space; operation: GenerationOperation | null } | null> {
+  const now = new Date().toISOString();
+  const result = await store.runTransaction(async (tx) => {
+    const space = await tx.get(spacesRepo, spaceId);
+    if (!space || space.status !== "generating" || !space.operationId) return null;
+    const operation = await tx.get(operationsRepo, space.operationId);
+
+    const spaceUpdates = { status: "failed" as const, errorMessage: "Generation cancelled", updatedAt: now };
+    tx.update(spacesRepo, spaceId, spaceUpdates);
+
+    let cancelled: GenerationOperation | null = null;
+    if (operation) {
+      const operationUpdates = { status: "cancelled" as const, cancelledBy: uid, completedAt: now };
+      tx.update(operationsRepo, operation.id, operationUpdates);
+      cancelled = { ...operation, ...operationUpdates };
+    }
+    return { space: { ...space, ...spaceUpdates }, operation: cancelled };
+  });
+  if (!result) return null;
+
+  untrackGeneration(spaceId);
+  const provider = result.operation ? getProvider(result.operation.provider) : undefined;
+  if (result.operation && provider?.capabilities.cancel) {
+    await provider.cancel?.(result.operation.id).catch((err) =>
+      console.error(`❌ ${provider.id} could not cancel operation ${result.operation?.id}:`, err)
+    );
+  }
+  let space = result.space;
+  if (result.operation?.reservationId) {
+    const released = await releaseCredit(result.operation.reservationId, "Generation cancelled", result.operation.id);
+    if (released) space = { ...space, creditsReleased: (space.creditsReleased ?? 0) + released.amount };
+  }
+  publishSpaceEvent(spaceEvent(space, "failed"));
+
+  console.log(`🎨 Generation cancelled — space ${spaceId}, operation ${result.operation?.id ?? "unknown"}`);
+  return { space, operation: result.operation };
+}
+
+// Make an earlier successful generation the one the space shows. Returns null
+// when the space is mid-generation or the operation has nothing to show.
+export async function activateGeneration(spaceId: string, operationId: string): Promise<Space | null> {
+  const space = await store.runTransaction(async (tx) => {
+    const space = await tx.get(spacesRepo, spaceId);
+    const operation = await tx.get(operationsRepo, operationId);
+    if (!space || space.status === "generating") return null;
+    if (!operation || operation.spaceId !== spaceId || !operation.outputs) return null;
+
+    const next = withOutputs(
+      {
+        ...space,
+        status: "ready",
+        currentOperationId: operationId,
+        ...(operation.input ? { generationPrompt: operation.input.textPrompt } : {}),
+        updatedAt: new Date().toISOString(),
+      },
+      operation.outputs
+    );
+    delete next.errorMessage;
+    tx.set(spacesRepo, spaceId, next);
+    return next;
+  });
+  if (!space) return null;
+
+  publishSpaceEvent(spaceEvent(space, "ready"));
+  console.log(`🎨 Space ${spaceId} now shows operation ${operationId}`);
+  return space;
+}
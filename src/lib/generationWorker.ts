@@ -0,0 +1,331 @@
+import { randomUUID } from "crypto";
+import { getSpace, getSpacesByStatus, updateSpace, type Space } from "./storage";
+import { compressAndUploadAssets } from "./compress";
+import { recordAudit, SYSTEM_ACTOR } from "./audit";
+import { store, spacesRepo } from "./persistence";
+import {
+  claimOperation,
+  generationAssetPath,
+  getOperationRecord,
+  operationsRepo,
+  pickOutputs,
+  recordAssetIngestion,
+  withOutputs,
+  type GenerationOperation,
+} from "./operations";
+import { commitCredit, releaseCredit, settleStaleReservations } from "./credits";
+import { publishSpaceEvent, spaceEvent } from "./spaceEvents";
+import { getProvider, type GenerationProvider } from "./providers";
+
+// How often the worker looks for spaces it is not tracking yet
+const SWEEP_INTERVAL_MS = 15 * 1000;
+
+// Per-space polling backoff — generations usually take a few minutes
+const INITIAL_POLL_DELAY_MS = 5 * 1000;
+const MAX_POLL_DELAY_MS = 60 * 1000;
+const POLL_BACKOFF_FACTOR = 1.5;
+
+// Give up on a generation that has not finished in this long
+const GENERATION_TIMEOUT_MS = 60 * 60 * 1000; // 1 hour
+
+// Transient WorldLabs or storage errors are retried this many times in a row
+const MAX_CONSECUTIVE_ERRORS = 5;
+
+// Credit holds older than this can no longer belong to a live generation
+const STALE_RESERVATION_MS = 2 * GENERATION_TIMEOUT_MS;
+
+// An operation's lease is renewed on every poll and ingested asset, so it only
+// runs out when the instance holding it has stopped
+const LEASE_MS = 10 * 60 * 1000;
+const WORKER_ID = randomUUID();
+
+interface TrackedGeneration {
+  spaceId: string;
+  operationId: string;
+  // Resolved from the operation record on the first poll
+  providerId?: string;
+  delayMs: number;
+  nextPollAt: number;
+  errors: number;
+}
+
+const tracked = new Map<string, TrackedGeneration>();
+const inFlight = new Set<string>();
+let sweepTimer: NodeJS.Timeout | null = null;
+let tickTimer: NodeJS.Timeout | null = null;
+
+// Start (or restart) tracking a space — called when a generation begins so
+// the first poll does not wait for the next sweep
+export function trackGeneration(spaceId: string, operationId: string): void {
+  tracked.set(spaceId, {
+    spaceId,
+    operationId,
+    delayMs: INITIAL_POLL_DELAY_MS,
+    nextPollAt: Date.now() + INITIAL_POLL_DELAY_MS,
+    errors: 0,
+  });
+  console.log(`⚙️ Worker tracking space ${spaceId} (operation ${operationId})`);
+}
+
+// A space can be re-tracked with a new operation while an old poll is running
+function untrack(entry: TrackedGeneration): void {
+  if (tracked.get(entry.spaceId) === entry) tracked.delete(entry.spaceId);
+}
+
+export function untrackGeneration(spaceId: string): void {
+  if (tracked.delete(spaceId)) console.log(`⚙️ Worker stopped tracking space ${spaceId}`);
+}
+
+function backOff(entry: TrackedGeneration): void {
+  entry.delayMs = Math.min(entry.delayMs * POLL_BACKOFF_FACTOR, MAX_POLL_DELAY_MS);
+  entry.nextPollAt = Date.now() + entry.delayMs;
+}
+
+// Only finalize if the space is still waiting on the same operation — it may
+// have been deleted or restarted while assets were being ingested
+async function finalizeSpace(
+  spaceId: string,
+  operationId: string,
+  updates: Partial<Space>,
+  outcome: Partial<GenerationOperation>
+): Promise<Space | null> {
+  return store.runTransaction(async (tx) => {
+    const space = await tx.get(spacesRepo, spaceId);
+    const operation = await tx.get(operationsRepo, operationId);
+    if (!space || space.status !== "generating" || space.operationId !== operationId) {
+      return null;
+    }
+    // Late result for a cancelled operation
+    if (operation && operation.status !== "running") return null;
+    const now = new Date().toISOString();
+    const changes = { ...updates, updatedAt: now };
+    const next = outcome.outputs ? withOutputs({ ...space, ...changes }, outcome.outputs) : { ...space, ...changes };
+    tx.set(spacesRepo, spaceId, next);
+    // Generations started before operations were recorded have no record
+    if (operation) {
+      tx.update(operationsRepo, operationId, { ...outcome, completedAt: now });
+    }
+    return next;
+  });
+}
+
+async function failGeneration(space: Space, operationId: string, message: string): Promise<void> {
+  const finalized = await finalizeSpace(
+    space.id,
+    operationId,
+    { status: "failed", errorMessage: message },
+    { status: "failed", errorMessage: message }
+  );
+
+  // Refund even when the space moved on — unless another instance finished the generation
+  const operation = await getOperationRecord(operationId);
+  const released = operation?.reservationId && operation.status !== "succeeded"
+    ? await releaseCredit(operation.reservationId, message, operationId)
+    : null;
+  if (!finalized) return;
+
+  // Re-read so the event carries the refunded amount
+  const refreshed = released ? await getSpace(space.id) : undefined;
+  publishSpaceEvent(spaceEvent(refreshed || finalized, "failed"));
+
+  await recordAudit(space.teamId, {
+    actor: SYSTEM_ACTOR,
+    action: "generation.fail",
+    target: { type: "space", id: space.id },
+    before: { status: "generating" },
+    after: { status: "failed", operationId, errorMessage: message },
+  });
+  console.log(`⚠️ Generation failed — space ${space.id}: ${message}`);
+}
+
+async function completeGeneration(
+  space: Space,
+  operationId: string,
+  provider: GenerationProvider,
+  worldId: string
+): Promise<void> {
+  const world = await provider.fetchAssets(worldId);
+  const operation = await getOperationRecord(operationId);
+  const assetPath = operation?.assetPath || generationAssetPath(space.id, operationId);
+
+  console.log(`⚙️ Generation complete — space ${space.id}, world ${worldId}`);
+  publishSpaceEvent(spaceEvent(space, "compressing", { step: "start" }));
+  const ingestion = await compressAndUploadAssets(assetPath, world, {
+    previous: operation?.ingestion,
+    onProgress: (step, urls) => publishSpaceEvent(spaceEvent(space, "compressing", { step, assets: urls })),
+    onAsset: async (key, record) => {
+      await recordAssetIngestion(operationId, key, record);
+      await claimOperation(operationId, WORKER_ID, LEASE_MS);
+    },
+  });
+
+  // Thrown so the poll is retried with backoff — the next run resumes with
+  // whatever did not make it, and repeated failures fail the generation
+  if (ingestion.incomplete) {
+    const errors = ingestion.failed.map((key) => `${key}: ${ingestion.assets[key]?.error}`);
+    throw new Error(`Asset ingestion incomplete — ${errors.join("; ")}`);
+  }
+  console.log(`📦 Assets compressed and uploaded for space ${space.id}`);
+
+  const outputs = pickOutputs({
+    ...ingestion.urls,
+    worldId: world.worldId,
+    marbleUrl: world.viewerUrl,
+  });
+
+  // The new world becomes current — earlier ones stay on their operation records
+  const finalized = await finalizeSpace(
+    space.id,
+    operationId,
+    { status: "ready", currentOperationId: operationId },
+    { status: "succeeded", worldId: world.worldId, outputs, assetPath }
+  );
+
+  if (!finalized) {
+    console.log(`⚙️ Space ${space.id} changed during ingestion — discarding result`);
+    // Cancelled or restarted — but never refund a world that did get finalized
+    const current = await getOperationRecord(operationId);
+    if (current?.reservationId && current.status !== "succeeded") {
+      await releaseCredit(current.reservationId, "Space changed before the generation finished", operationId);
+    }
+    return;
+  }
+
+  if (operation?.reservationId) await commitCredit(operation.reservationId, operationId);
+  // Optional assets that failed are reported rather than failing the generation
+  const message = ingestion.failed.length > 0 ? `Some assets could not be ingested: ${ingestion.failed.join(", ")}` : undefined;
+  publishSpaceEvent(spaceEvent(finalized, "ready", { message }));
+
+  await recordAudit(space.teamId, {
+    actor: SYSTEM_ACTOR,
+    action: "generation.complete",
+    target: { type: "space", id: space.id },
+    before: { status: "generating" },
+    after: { status: "ready", operationId, worldId: world.worldId, failedAssets: ingestion.failed },
+  });
+  console.log(`⚙️ Space ${space.id} marked ready`);
+}
+
+// Generations started before operations were recorded all ran on WorldLabs
+async function providerFor(entry: TrackedGeneration): Promise<GenerationProvider | undefined> {
+  if (!entry.providerId) {
+    const operation = await getOperationRecord(entry.operationId);
+    entry.providerId = operation?.provider ?? "worldlabs";
+  }
+  return getProvider(entry.providerId);
+}
+
+// One poll of one generation. Returns true when the space no longer needs tracking.
+async function pollGeneration(entry: TrackedGeneration): Promise<boolean> {
+  const space = await getSpace(entry.spaceId);
+  if (!space || space.status !== "generating" || space.operationId !== entry.operationId) {
+    return true;
+  }
+
+  // Another instance is on it — keep watching until the space leaves "generating"
+  if (!(await claimOperation(entry.operationId, WORKER_ID, LEASE_MS))) return false;
+
+  const startedAt = new Date(space.generationStartedAt || space.updatedAt).getTime();
+  if (Date.now() - startedAt > GENERATION_TIMEOUT_MS) {
+    await failGeneration(space, entry.operationId, "Generation timed out");
+    return true;
+  }
+
+  const provider = await providerFor(entry);
+  if (!provider) {
+    await failGeneration(space, entry.operationId, `Generation provider ${entry.providerId} is not available`);
+    return true;
+  }
+
+  const result = await provider.poll(entry.operationId);
+
+  if (result.done && result.worldId) {
+    await completeGeneration(space, entry.operationId, provider, result.worldId);
+    return true;
+  }
+
+  if (result.done) {
+    await failGeneration(space, entry.operationId, result.error || "Generation failed");
+    return true;
+  }
+
+  return false;
+}
+
+async function runPoll(entry: TrackedGeneration): Promise<void> {
+  inFlight.add(entry.spaceId);
+  try {
+    const finished = await pollGeneration(entry);
+    if (finished) {
+      untrack(entry);
+      return;
+    }
+    entry.errors = 0;
+    backOff(entry);
+  } catch (err) {
+    entry.errors += 1;
+    const message = err instanceof Error ? err.message : "Unknown error";
+    console.error(`❌ Worker poll failed for space ${entry.spaceId} (${entry.errors}/${MAX_CONSECUTIVE_ERRORS}):`, message);
+
+    if (entry.errors >= MAX_CONSECUTIVE_ERRORS) {
+      untrack(entry);
+      const space = await getSpace(entry.spaceId).catch(() => undefined);
+      if (space) {
+        await failGeneration(space, entry.operationId, message).catch((e) =>
+          console.error(`❌ Failed to mark space ${entry.spaceId} as failed:`, e)
+        );
+      }
+      return;
+    }
+    backOff(entry);
+  } finally {
+    inFlight.delete(entry.spaceId);
+  }
+}
+
+function tick(): void {
+  const now = Date.now();
+  for (const entry of tracked.values()) {
+    if (entry.nextPollAt > now || inFlight.has(entry.spaceId)) continue;
+    runPoll(entry);
+  }
+}
+
+// Pick up generations started elsewhere (another instance, or before a restart)
+async function sweep(): Promise<void> {
+  try {
+    const spaces = await getSpacesByStatus("generating");
+    for (const space of spaces) {
+      if (!space.operationId) {
+        const failed = await updateSpace(space.id, { status: "failed", errorMessage: "Generation has no operation" });
+        if (failed) publishSpaceEvent(spaceEvent(failed, "failed"));
+        continue;
+      }
+      const entry = tracked.get(space.id);
+      if (!entry || entry.operationId !== space.operationId) {
+        trackGeneration(space.id, space.operationId);
+      }
+    }
+
+    const settled = await settleStaleReservations(STALE_RESERVATION_MS);
+    if (settled > 0) console.log(`⚙️ Settled ${settled} stale credit reservations`);
+  } catch (err) {
+    console.error("❌ Worker sweep failed:", err);
+  }
+}
+
+export function startGenerationWorker(): void {
+  if (sweepTimer) return;
+  console.log("⚙️ Generation worker started");
+  sweep();
+  sweepTimer = setInterval(sweep, SWEEP_INTERVAL_MS);
+  tickTimer = setInterval(tick, 1000);
+}
+
+export function stopGenerationWorker(): void {
+  if (sweepTimer) clearInterval(sweepTimer);
+  if (tickTimer) clearInterval(tickTimer);
+  sweepTimer = null;
+  tickTimer = null;
+  console.log("⚙️ Generation worker stopped");
+}
@@ -0,0 +1,109 @@
+import { createHash, randomBytes } from "crypto";
+import { store, teamsRepo } from "./persistence";
+import type { Team, TeamRole } from "./teams";
+
+export const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+export interface Invitation {
+  id: string;
+  teamId: string;
+  email: string;
+  role: Exclude<TeamRole, "owner">;
+  tokenHash: string;
+  status: "pending" | "accepted" | "revoked";
+  invitedBy: string;
+  expiresAt: string;
+  lastSentAt: string;
+  acceptedBy?: string;
+  acceptedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const invitationsRepo = store.collection<Invitation>("invitations");
+
+// Only the hash is stored — the raw token exists in the email link alone
+export function generateInvitationToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(24).toString("base64url");
+  return { token, tokenHash: hashInvitationToken(token) };
+}
+
+export function hashInvitationToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function isInvitationExpired(invitation: Invitation): boolean {
+  return new Date(invitation.expiresAt).getTime() <= Date.now();
+}
+
+// Strip the token hash before sending an invitation to a client
+export function toPublicInvitation(invitation: Invitation): Omit<Invitation, "tokenHash"> {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { tokenHash, ...rest } = invitation;
+  return rest;
+}
+
+export async function getInvitation(id: string): Promise<Invitation | undefined> {
+  return invitationsRepo.get(id);
+}
+
+export async function getInvitationByToken(token: string): Promise<Invitation | undefined> {
+  return invitationsRepo.findOne({ where: [["tokenHash", "==", hashInvitationToken(token)]] });
+}
+
+export async function getInvitationsByTeam(teamId: string): Promise<Invitation[]> {
+  return invitationsRepo.find({
+    where: [["teamId", "==", teamId]],
+    orderBy: { field: "createdAt", direction: "desc" },
+  });
+}
+
+export async function createInvitation(invitation: Invitation): Promise<Invitation> {
+  console.log(`💾 Firestore: creating invitation ${invitation.id} (${invitation.email} → team ${invitation.teamId})`);
+  return invitationsRepo.set(invitation.id, invitation);
+}
+
+export async function updateInvitation(
+  id: string,
+  updates: Partial<Invitation>
+): Promise<Invitation | null> {
+  console.log(`💾 Firestore: updating invitation ${id} — keys: ${Object.keys(updates).join(", ")}`);
+  return invitationsRepo.update(id, { ...updates, updatedAt: new Date().toISOString() });
+}
+
+export async function deleteInvitation(id: string): Promise<boolean> {
+  console.log(`💾 Firestore: deleting invitation ${id}`);
+  return invitationsRepo.delete(id);
+}
+
+// Consume the invitation and add the user to the team in one transaction,
+// so a token can never be redeemed twice
+export async function acceptInvitation(
+  invitationId: string,
+  userId: string
+): Promise<Team | null> {
+  console.log(`💾 Firestore: accepting invitation ${invitationId} for user ${userId}`);
+  return store.runTransaction(async (tx) => {
+    const invitation = await tx.get(invitationsRepo, invitationId);
+    if (!invitation) return null;
+    if (invitation.status !== "pending" || isInvitationExpired(invitation)) return null;
+
+    const team = await tx.get(teamsRepo, invitation.teamId);
+    if (!team) return null;
+
+    const now = new Date().toISOString();
+    tx.update(invitationsRepo, invitationId, {
+      status: "accepted",
+      acceptedBy: userId,
+      acceptedAt: now,
+      updatedAt: now,
+    });
+
+    if (team.memberIds.includes(userId)) return team;
+    const memberIds = [...team.memberIds, userId];
+    const roles = { ...team.roles, [userId]: invitation.role };
+    const updates = { memberIds, roles, updatedAt: now };
+    tx.update(teamsRepo, team.id, updates);
+    return { ...team, ...updates };
+  });
+}
@@ -0,0 +1,132 @@
+import { randomUUID } from "crypto";
+import { store, type Query } from "./persistence";
+
+export const LEDGER_PAGE_SIZE = 50;
+export const LEDGER_MAX_PAGE_SIZE = 200;
+
+export type CreditTransactionType =
+  | "grant"
+  | "renewal"
+  | "debit"
+  | "refund"
+  | "adjustment"
+  | "expiration";
+
+// What caused a ledger entry — at least one is set for every automatic entry
+export interface CreditTransactionReference {
+  stripeEventId?: string;
+  spaceId?: string;
+  operationId?: string;
+  reservationId?: string;
+}
+
+// Append-only. `amount` is signed; `balanceAfter` is the team's spendable
+// balance (credits - creditsUsed - creditsReserved) once the entry applied.
+export interface CreditTransaction {
+  id: string;
+  teamId: string;
+  type: CreditTransactionType;
+  amount: number;
+  balanceAfter: number;
+  reference: CreditTransactionReference;
+  note?: string;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+export interface LedgerQuery {
+  type?: CreditTransactionType;
+  since?: string;
+  until?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+export function ledgerRepo(teamId: string) {
+  return store.collection<CreditTransaction>(`teams/${teamId}/creditTransactions`);
+}
+
+export function buildLedgerEntry(
+  teamId: string,
+  entry: {
+    id?: string;
+    type: CreditTransactionType;
+    amount: number;
+    balanceAfter: number;
+    reference: CreditTransactionReference;
+    note?: string;
+    createdBy?: string | null;
+  }
+): CreditTransaction {
+  const record: CreditTransaction = {
+    id: entry.id || randomUUID(),
+    teamId,
+    type: entry.type,
+    amount: entry.amount,
+    balanceAfter: entry.balanceAfter,
+    reference: entry.reference,
+    note: entry.note,
+    createdBy: entry.createdBy ?? null,
+    createdAt: new Date().toISOString(),
+  };
+  // Firestore rejects undefined values anywhere in the document
+  return JSON.parse(JSON.stringify(record)) as CreditTransaction;
+}
+
+function ledgerWhere(query: LedgerQuery): NonNullable<Query["where"]> {
+  const where: NonNullable<Query["where"]> = [];
+  if (query.type) where.push(["type", "==", query.type]);
+  if (query.since) where.push(["createdAt", ">=", query.since]);
+  if (query.until) where.push(["createdAt", "<", query.until]);
+  return where;
+}
+
+export async function queryLedger(
+  teamId: string,
+  query: LedgerQuery
+): Promise<{ entries: CreditTransaction[]; nextCursor: string | null }> {
+  const limit = Math.min(query.limit || LEDGER_PAGE_SIZE, LEDGER_MAX_PAGE_SIZE);
+  const results = await ledgerRepo(teamId).find({
+    where: ledgerWhere(query),
+    orderBy: { field: "createdAt", direction: "desc" },
+    startAfter: query.cursor,
+    limit: limit + 1,
+  });
+  const entries = results.slice(0, limit);
+  const nextCursor = results.length > limit ? entries[entries.length - 1].id : null;
+  return { entries, nextCursor };
+}
+
+// Every matching entry, oldest first — for CSV export
+export async function getLedgerEntries(teamId: string, query: LedgerQuery = {}): Promise<CreditTransaction[]> {
+  return ledgerRepo(teamId).find({
+    where: ledgerWhere(query),
+    orderBy: { field: "createdAt", direction: "asc" },
+  });
+}
+
+// The balance the ledger accounts for — should match the team counters
+export async function getLedgerBalance(teamId: string): Promise<number> {
+  const entries = await ledgerRepo(teamId).find();
+  return entries.reduce((sum, entry) => sum + entry.amount, 0);
+}
+
+function csvCell(value: unknown): string {
+  const text = value === undefined || value === null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function ledgerToCsv(entries: CreditTransaction[]): string {
+  const header = [
+    "id", "createdAt", "type", "amount", "balanceAfter",
+    "stripeEventId", "spaceId", "operationId", "reservationId", "note", "createdBy",
+  ];
+  const rows = entries.map((e) =>
+    [
+      e.id, e.createdAt, e.type, e.amount, e.balanceAfter,
+      e.reference.stripeEventId, e.reference.spaceId, e.reference.operationId,
+      e.reference.reservationId, e.note, e.createdBy,
+    ].map(csvCell).join(",")
+  );
+  return [header.join(","), ...rows].join("\n") + "\n";
+}
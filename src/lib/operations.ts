@@ -0,0 +1,152 @@
+import { store } from "./persistence";
+import type { Space } from "./storage";
+import type { PromptVariable } from "./prompts";
+
+export interface GenerationImage {
+  url: string;
+  // Viewing direction in degrees, 0 being the first photo
+  azimuth: number;
+}
+
+// What the provider was asked for — kept so a failed generation can be retried
+export interface GenerationInput {
+  type: "image" | "panorama" | "multi-image" | "text";
+  textPrompt: string;
+  // What textPrompt was rendered from — absent on older operations
+  promptTemplate?: string;
+  promptVariables?: Record<PromptVariable, string>;
+  // Single photo or equirectangular panorama
+  imageUrl?: string;
+  // Multi-view input, in shooting order
+  images?: GenerationImage[];
+}
+
+// Space fields a finished generation fills in
+const OUTPUT_FIELDS = [
+  "worldId",
+  "marbleUrl",
+  "thumbnailUrl",
+  "panoramaUrl",
+  "splatUrl",
+  "splatUrl500k",
+  "splatUrl100k",
+  "meshUrl",
+] as const;
+
+export type GenerationOutputs = Pick<Space, (typeof OUTPUT_FIELDS)[number]>;
+
+export type AssetKey = "thumbnail" | "panorama" | "splat" | "splat-500k" | "splat-100k" | "mesh";
+
+// Ingestion state of one asset of a finished generation
+export interface AssetIngestion {
+  status: "done" | "failed";
+  // Stored copy — set once done
+  url?: string;
+  path?: string;
+  // Of the stored bytes, after any re-encoding
+  sha256?: string;
+  size?: number;
+  // Across all runs for this operation
+  attempts: number;
+  error?: string;
+  updatedAt: string;
+}
+
+// One record per generation a space goes through, keyed by the provider's
+// operation id so status lookups are a single document read
+export interface GenerationOperation {
+  id: string;
+  spaceId: string;
+  teamId: string;
+  // Registered provider id — see lib/providers
+  provider: string;
+  model: string;
+  // Absent on operations recorded before retries existed
+  input?: GenerationInput;
+  status: "running" | "succeeded" | "failed" | "cancelled";
+  startedBy: string;
+  cancelledBy?: string;
+  reservationId?: string;
+  startedAt: string;
+  completedAt?: string;
+  worldId?: string;
+  // Set once the generation succeeded — absent for failed or legacy generations
+  outputs?: GenerationOutputs;
+  // Storage prefix the outputs were uploaded under
+  assetPath?: string;
+  // Per-asset progress, so an interrupted ingestion resumes where it stopped
+  ingestion?: Partial<Record<AssetKey, AssetIngestion>>;
+  // The worker instance polling and ingesting this operation — see claimOperation
+  lease?: { owner: string; expiresAt: string };
+  errorMessage?: string;
+}
+
+export const operationsRepo = store.collection<GenerationOperation>("operations");
+
+// Each generation uploads under its own prefix so earlier worlds are never overwritten
+export function generationAssetPath(spaceId: string, operationId: string): string {
+  return `models/${spaceId}/${operationId}`;
+}
+
+// Undefined values are dropped — Firestore rejects them
+export function pickOutputs(source: Partial<GenerationOutputs>): GenerationOutputs {
+  return Object.fromEntries(
+    OUTPUT_FIELDS.filter((field) => source[field] !== undefined).map((field) => [field, source[field]])
+  ) as GenerationOutputs;
+}
+
+// The space showing `outputs` — fields the generation did not produce are
+// cleared rather than left over from whichever world was current before
+export function withOutputs(space: Space, outputs: GenerationOutputs): Space {
+  const next = { ...space };
+  for (const field of OUTPUT_FIELDS) delete next[field];
+  return { ...next, ...pickOutputs(outputs) };
+}
+
+// Read-modify-write in a transaction — assets of one operation settle concurrently
+export async function recordAssetIngestion(operationId: string, key: AssetKey, record: AssetIngestion): Promise<void> {
+  await store.runTransaction(async (tx) => {
+    const operation = await tx.get(operationsRepo, operationId);
+    if (!operation) return;
+    tx.update(operationsRepo, operationId, { ingestion: { ...operation.ingestion, [key]: record } });
+  });
+}
+
+// Every instance's worker sweeps all generating spaces; only the one holding
+// the lease polls and ingests. Returns false while another live instance holds
+// it. Claiming again before expiry renews the lease.
+export async function claimOperation(operationId: string, owner: string, leaseMs: number): Promise<boolean> {
+  return store.runTransaction(async (tx) => {
+    const operation = await tx.get(operationsRepo, operationId);
+    // Generations started before operations were recorded have nothing to lease
+    if (!operation) return true;
+    const { lease } = operation;
+    if (lease && lease.owner !== owner && new Date(lease.expiresAt).getTime() > Date.now()) return false;
+    tx.update(operationsRepo, operationId, {
+      lease: { owner, expiresAt: new Date(Date.now() + leaseMs).toISOString() },
+    });
+    return true;
+  });
+}
+
+export async function createOperation(operation: GenerationOperation): Promise<GenerationOperation> {
+  console.log(`💾 Firestore: recording operation ${operation.id} for space ${operation.spaceId}`);
+  return operationsRepo.set(operation.id, operation);
+}
+
+export async function getOperationRecord(id: string): Promise<GenerationOperation | undefined> {
+  return operationsRepo.get(id);
+}
+
+export async function getOperationsBySpace(spaceId: string): Promise<GenerationOperation[]> {
+  return operationsRepo.find({
+    where: [["spaceId", "==", spaceId]],
+    orderBy: { field: "startedAt", direction: "desc" },
+  });
+}
+
+export async function deleteOperationsBySpace(spaceId: string): Promise<number> {
+  const operations = await operationsRepo.find({ where: [["spaceId", "==", spaceId]] });
+  await Promise.all(operations.map((op) => operationsRepo.delete(op.id)));
+  return operations.length;
+}
@@ -0,0 +1,112 @@
+import { db } from "../firebase";
+import type { DocumentStore, Query, Repository, Transaction } from "./types";
+
+class FirestoreRepository<T> implements Repository<T> {
+  constructor(readonly path: string) {}
+
+  private get ref() {
+    return db.collection(this.path);
+  }
+
+  async get(id: string): Promise<T | undefined> {
+    const doc = await this.ref.doc(id).get();
+    return doc.exists ? (doc.data() as T) : undefined;
+  }
+
+  async getMany(ids: string[]): Promise<T[]> {
+    if (ids.length === 0) return [];
+    const docs = await db.getAll(...ids.map((id) => this.ref.doc(id)));
+    return docs.filter((doc) => doc.exists).map((doc) => doc.data() as T);
+  }
+
+  async find(query: Query = {}): Promise<T[]> {
+    let q: FirebaseFirestore.Query = this.ref;
+    for (const [field, op, value] of query.where || []) {
+      q = q.where(field, op, value);
+    }
+    if (query.orderBy) {
+      q = q.orderBy(query.orderBy.field, query.orderBy.direction || "asc");
+    }
+    if (query.startAfter) {
+      const cursor = await this.ref.doc(query.startAfter).get();
+      if (cursor.exists) q = q.startAfter(cursor);
+    }
+    if (query.limit) q = q.limit(query.limit);
+    const snapshot = await q.get();
+    return snapshot.docs.map((doc) => doc.data() as T);
+  }
+
+  async findOne(query: Query): Promise<T | undefined> {
+    const [first] = await this.find({ ...query, limit: 1 });
+    return first;
+  }
+
+  async set(id: string, doc: T): Promise<T> {
+    await this.ref.doc(id).set(doc as FirebaseFirestore.DocumentData);
+    return doc;
+  }
+
+  async create(id: string, doc: T): Promise<T> {
+    await this.ref.doc(id).create(doc as FirebaseFirestore.DocumentData);
+    return doc;
+  }
+
+  async merge(id: string, fields: Partial<T>): Promise<void> {
+    await this.ref.doc(id).set(fields as FirebaseFirestore.DocumentData, { merge: true });
+  }
+
+  // Writes only `fields`, so a transaction changing other fields of the same
+  // document (credits, for one) is never overwritten with stale values
+  async update(id: string, fields: Partial<T>): Promise<T | null> {
+    const ref = this.ref.doc(id);
+    return db.runTransaction(async (txn) => {
+      const doc = await txn.get(ref);
+      if (!doc.exists) return null;
+      txn.update(ref, fields as FirebaseFirestore.DocumentData);
+      return { ...doc.data(), ...fields } as T;
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const ref = this.ref.doc(id);
+    const doc = await ref.get();
+    if (!doc.exists) return false;
+    await ref.delete();
+    return true;
+  }
+
+  async deleteAll(): Promise<number> {
+    const snapshot = await this.ref.get();
+    await db.recursiveDelete(this.ref);
+    return snapshot.size;
+  }
+}
+
+export function createFirestoreStore(): DocumentStore {
+  return {
+    backend: "firestore",
+    collection<T>(path: string): Repository<T> {
+      return new FirestoreRepository<T>(path);
+    },
+    runTransaction<R>(fn: (tx: Transaction) => Promise<R>): Promise<R> {
+      return db.runTransaction(async (txn) => {
+        const tx: Transaction = {
+          async get<T>(repo: Repository<T>, id: string) {
+            const doc = await txn.get(db.collection(repo.path).doc(id));
+            return doc.exists ? (doc.data() as T) : undefined;
+          },
+          set(repo, id, doc) {
+            txn.set(db.collection(repo.path).doc(id), doc as FirebaseFirestore.DocumentData);
+          },
+          update(repo, id, fields) {
+            txn.update(db.collection(repo.path).doc(id), fields as FirebaseFirestore.DocumentData);
+          },
+          delete(repo, id) {
+            txn.delete(db.collection(repo.path).doc(id));
+          },
+        };
+        return fn(tx);
+      });
+    },
+  };
+}
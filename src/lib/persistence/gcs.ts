@@ -0,0 +1,100 @@
+import { getStorage } from "firebase-admin/storage";
+import type { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import "../firebase";
+import type { BlobInfo, BlobStore, SaveOptions, SignedUpload, SignedUploadOptions } from "./types";
+
+export function createGcsBlobStore(): BlobStore {
+  // Resolved lazily so the module can load without a configured bucket
+  const bucket = () => getStorage().bucket();
+
+  function publicUrl(path: string): string {
+    return `https://storage.googleapis.com/${bucket().name}/${path}`;
+  }
+
+  return {
+    backend: "gcs",
+    publicUrl,
+
+    async save(path: string, data: Buffer, options: SaveOptions): Promise<string> {
+      await bucket().file(path).save(data, {
+        contentType: options.contentType,
+        public: options.public ?? false,
+        ...(options.cacheControl ? { metadata: { cacheControl: options.cacheControl } } : {}),
+      });
+      return publicUrl(path);
+    },
+
+    async saveStream(path: string, source: Readable, options: SaveOptions): Promise<string> {
+      const destination = bucket().file(path).createWriteStream({
+        contentType: options.contentType,
+        public: options.public ?? false,
+        ...(options.cacheControl ? { metadata: { cacheControl: options.cacheControl } } : {}),
+      });
+      await pipeline(source, destination);
+      return publicUrl(path);
+    },
+
+    readStream(path: string): Readable {
+      return bucket().file(path).createReadStream();
+    },
+
+    async stat(path: string): Promise<BlobInfo | undefined> {
+      const [exists] = await bucket().file(path).exists();
+      if (!exists) return undefined;
+      const [metadata] = await bucket().file(path).getMetadata();
+      return { path, size: Number(metadata.size || 0), contentType: metadata.contentType };
+    },
+
+    async list(prefix: string): Promise<BlobInfo[]> {
+      const [files] = await bucket().getFiles({ prefix });
+      return files.map((f) => ({
+        path: f.name,
+        size: Number(f.metadata.size || 0),
+        contentType: f.metadata.contentType,
+      }));
+    },
+
+    async delete(path: string): Promise<void> {
+      await bucket().file(path).delete({ ignoreNotFound: true });
+    },
+
+    async deletePrefix(prefix: string): Promise<number> {
+      const [files] = await bucket().getFiles({ prefix });
+      await Promise.all(files.map((f) => f.delete({ ignoreNotFound: true })));
+      return files.length;
+    },
+
+    async signedReadUrl(path: string, options: { expiresInMs: number; filename?: string }): Promise<string> {
+      const [url] = await bucket().file(path).getSignedUrl({
+        action: "read",
+        expires: Date.now() + options.expiresInMs,
+        ...(options.filename ? { responseDisposition: `attachment; filename="${options.filename}"` } : {}),
+      });
+      return url;
+    },
+
+    async signedUploadUrl(path: string, options: SignedUploadOptions): Promise<SignedUpload> {
+      const expires = Date.now() + options.expiresInMs;
+      // Extension headers are part of the signature, so GCS rejects uploads
+      // that leave them out or exceed the size range
+      const extensionHeaders: Record<string, string> = {
+        "x-goog-content-length-range": `1,${options.maxBytes}`,
+        ...(options.public ? { "x-goog-acl": "public-read" } : {}),
+      };
+      const [url] = await bucket().file(path).getSignedUrl({
+        version: "v4",
+        action: "write",
+        expires,
+        contentType: options.contentType,
+        extensionHeaders,
+      });
+      return {
+        url,
+        method: "PUT",
+        headers: { "Content-Type": options.contentType, ...extensionHeaders },
+        expiresAt: new Date(expires).toISOString(),
+      };
+    },
+  };
+}
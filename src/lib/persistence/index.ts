@@ -0,0 +1,49 @@
+import { randomBytes } from "crypto";
+import { createFirestoreStore } from "./firestore";
+import { createMemoryStore } from "./memory";
+import { createGcsBlobStore } from "./gcs";
+import { createLocalBlobStore } from "./localfs";
+import type { BlobStore, DocumentStore, Repository } from "./types";
+import type { Space } from "../storage";
+import type { Tour } from "../tours";
+import type { Team } from "../teams";
+import type { User } from "../users";
+
+// PERSISTENCE_BACKEND=memory runs the API without a Firebase project;
+// STORAGE_BACKEND defaults to local files in that mode
+export const PERSISTENCE_BACKEND: "firestore" | "memory" =
+  process.env.PERSISTENCE_BACKEND === "memory" ? "memory" : "firestore";
+
+export const STORAGE_BACKEND: "gcs" | "local" =
+  (process.env.STORAGE_BACKEND || (PERSISTENCE_BACKEND === "memory" ? "local" : "gcs")) === "local"
+    ? "local"
+    : "gcs";
+
+export const LOCAL_STORAGE_DIR = process.env.LOCAL_STORAGE_DIR || ".data/storage";
+export const LOCAL_STORAGE_URL =
+  process.env.LOCAL_STORAGE_URL || `http://localhost:${process.env.PORT || 3001}/files`;
+
+// Signs local direct-upload URLs. A per-process secret is fine for a single
+// dev server; set it when several processes share the storage directory.
+export const LOCAL_UPLOAD_SECRET = process.env.LOCAL_UPLOAD_SECRET || randomBytes(32).toString("hex");
+
+export const store: DocumentStore =
+  PERSISTENCE_BACKEND === "memory" ? createMemoryStore() : createFirestoreStore();
+
+export const blobs: BlobStore =
+  STORAGE_BACKEND === "local"
+    ? createLocalBlobStore(LOCAL_STORAGE_DIR, LOCAL_STORAGE_URL, LOCAL_UPLOAD_SECRET)
+    : createGcsBlobStore();
+
+export type SpaceRepository = Repository<Space>;
+export type TourRepository = Repository<Tour>;
+export type TeamRepository = Repository<Team>;
+export type UserRepository = Repository<User>;
+
+export const spacesRepo: SpaceRepository = store.collection<Space>("spaces");
+export const toursRepo: TourRepository = store.collection<Tour>("tours");
+export const teamsRepo: TeamRepository = store.collection<Team>("teams");
+export const usersRepo: UserRepository = store.collection<User>("users");
+
+export { verifyLocalUpload } from "./localfs";
+export type { BlobStore, DocumentStore, Repository, Transaction, Query } from "./types";
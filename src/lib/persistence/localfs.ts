@@ -0,0 +1,139 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { createReadStream, createWriteStream, promises as fs } from "fs";
+import path from "path";
+import type { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { BlobInfo, BlobStore, SaveOptions, SignedUpload, SignedUploadOptions } from "./types";
+
+// What a local signed upload URL grants — checked by the PUT handler in routes/files.ts
+export interface LocalUploadGrant {
+  path: string;
+  contentType: string;
+  maxBytes: number;
+  expires: number;
+}
+
+function uploadSignature(secret: string, grant: LocalUploadGrant): string {
+  return createHmac("sha256", secret)
+    .update([grant.path, grant.contentType, grant.maxBytes, grant.expires].join("\n"))
+    .digest("hex");
+}
+
+export function verifyLocalUpload(secret: string, grant: LocalUploadGrant, signature: string): boolean {
+  const expected = Buffer.from(uploadSignature(secret, grant));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+// Stores objects as plain files under `rootDir`, served by index.ts at
+// `publicBaseUrl`. Read access is not enforced locally; uploads are signed
+// with `uploadSecret` so direct uploads behave as they do against GCS.
+export function createLocalBlobStore(rootDir: string, publicBaseUrl: string, uploadSecret: string): BlobStore {
+  const root = path.resolve(rootDir);
+
+  function resolve(objectPath: string): string {
+    const full = path.resolve(root, objectPath);
+    if (!full.startsWith(root + path.sep)) {
+      throw new Error(`Invalid object path: ${objectPath}`);
+    }
+    return full;
+  }
+
+  function publicUrl(objectPath: string): string {
+    return `${publicBaseUrl.replace(/\/$/, "")}/${objectPath}`;
+  }
+
+  async function walk(dir: string): Promise<string[]> {
+    const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+    const nested = await Promise.all(
+      entries.map((entry) => {
+        const full = path.join(dir, entry.name);
+        return entry.isDirectory() ? walk(full) : Promise.resolve([full]);
+      })
+    );
+    return nested.flat();
+  }
+
+  async function list(prefix: string): Promise<BlobInfo[]> {
+    // Walk from the deepest directory fully contained in the prefix
+    const dir = path.dirname(resolve(prefix.endsWith("/") ? `${prefix}_` : prefix));
+    const files = await walk(dir);
+    const infos = await Promise.all(
+      files.map(async (file) => ({
+        path: path.relative(root, file).split(path.sep).join("/"),
+        size: (await fs.stat(file)).size,
+      }))
+    );
+    return infos.filter((info) => info.path.startsWith(prefix));
+  }
+
+  return {
+    backend: "local",
+    publicUrl,
+
+    async save(objectPath: string, data: Buffer, _options: SaveOptions): Promise<string> {
+      const full = resolve(objectPath);
+      await fs.mkdir(path.dirname(full), { recursive: true });
+      await fs.writeFile(full, data);
+      return publicUrl(objectPath);
+    },
+
+    async saveStream(objectPath: string, source: Readable, _options: SaveOptions): Promise<string> {
+      const full = resolve(objectPath);
+      await fs.mkdir(path.dirname(full), { recursive: true });
+      // Don't leave a truncated file behind when the source fails midway
+      await pipeline(source, createWriteStream(full)).catch(async (err) => {
+        await fs.rm(full, { force: true });
+        throw err;
+      });
+      return publicUrl(objectPath);
+    },
+
+    readStream(objectPath: string): Readable {
+      return createReadStream(resolve(objectPath));
+    },
+
+    async stat(objectPath: string): Promise<BlobInfo | undefined> {
+      const stats = await fs.stat(resolve(objectPath)).catch(() => undefined);
+      return stats?.isFile() ? { path: objectPath, size: stats.size } : undefined;
+    },
+
+    list,
+
+    async delete(objectPath: string): Promise<void> {
+      await fs.rm(resolve(objectPath), { force: true });
+    },
+
+    async deletePrefix(prefix: string): Promise<number> {
+      const files = await list(prefix);
+      await Promise.all(files.map((f) => fs.rm(resolve(f.path), { force: true })));
+      return files.length;
+    },
+
+    async signedReadUrl(objectPath: string): Promise<string> {
+      return publicUrl(objectPath);
+    },
+
+    async signedUploadUrl(objectPath: string, options: SignedUploadOptions): Promise<SignedUpload> {
+      resolve(objectPath);
+      const grant: LocalUploadGrant = {
+        path: objectPath,
+        contentType: options.contentType,
+        maxBytes: options.maxBytes,
+        expires: Date.now() + options.expiresInMs,
+      };
+      const query = new URLSearchParams({
+        contentType: grant.contentType,
+        maxBytes: String(grant.maxBytes),
+        expires: String(grant.expires),
+        signature: uploadSignature(uploadSecret, grant),
+      });
+      return {
+        url: `${publicUrl(objectPath)}?${query}`,
+        method: "PUT",
+        headers: { "Content-Type": options.contentType },
+        expiresAt: new Date(grant.expires).toISOString(),
+      };
+    },
+  };
+}
@@ -0,0 +1,158 @@
+import type { DocumentStore, Query, Repository, Transaction, WhereOp } from "./types";
+
+type Doc = Record<string, unknown>;
+
+// Supports dotted paths such as "actor.uid", like Firestore field paths
+function readField(doc: Doc, field: string): unknown {
+  return field.split(".").reduce<unknown>(
+    (value, key) => (value && typeof value === "object" ? (value as Doc)[key] : undefined),
+    doc
+  );
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === undefined || a === null) return -1;
+  if (b === undefined || b === null) return 1;
+  return (a as number | string) < (b as number | string) ? -1 : 1;
+}
+
+function matches(doc: Doc, field: string, op: WhereOp, value: unknown): boolean {
+  const actual = readField(doc, field);
+  switch (op) {
+    case "==": return JSON.stringify(actual ?? null) === JSON.stringify(value ?? null);
+    case "array-contains": return Array.isArray(actual) && actual.includes(value);
+    case "in": return Array.isArray(value) && value.includes(actual);
+    case "<": return actual !== undefined && compare(actual, value) < 0;
+    case "<=": return actual !== undefined && compare(actual, value) <= 0;
+    case ">": return actual !== undefined && compare(actual, value) > 0;
+    case ">=": return actual !== undefined && compare(actual, value) >= 0;
+  }
+}
+
+class MemoryRepository<T> implements Repository<T> {
+  constructor(
+    readonly path: string,
+    private readonly docs: Map<string, Doc>
+  ) {}
+
+  async get(id: string): Promise<T | undefined> {
+    const doc = this.docs.get(id);
+    return doc ? (structuredClone(doc) as T) : undefined;
+  }
+
+  async getMany(ids: string[]): Promise<T[]> {
+    return ids
+      .map((id) => this.docs.get(id))
+      .filter((doc): doc is Doc => !!doc)
+      .map((doc) => structuredClone(doc) as T);
+  }
+
+  async find(query: Query = {}): Promise<T[]> {
+    let entries = [...this.docs.entries()].filter(([, doc]) =>
+      (query.where || []).every(([field, op, value]) => matches(doc, field, op, value))
+    );
+    if (query.orderBy) {
+      const { field, direction } = query.orderBy;
+      const sign = direction === "desc" ? -1 : 1;
+      entries.sort(([, a], [, b]) => sign * compare(readField(a, field), readField(b, field)));
+    }
+    if (query.startAfter) {
+      const index = entries.findIndex(([id]) => id === query.startAfter);
+      if (index >= 0) entries = entries.slice(index + 1);
+    }
+    if (query.limit) entries = entries.slice(0, query.limit);
+    return entries.map(([, doc]) => structuredClone(doc) as T);
+  }
+
+  async findOne(query: Query): Promise<T | undefined> {
+    const [first] = await this.find({ ...query, limit: 1 });
+    return first;
+  }
+
+  async set(id: string, doc: T): Promise<T> {
+    this.docs.set(id, structuredClone(doc) as Doc);
+    return doc;
+  }
+
+  async create(id: string, doc: T): Promise<T> {
+    if (this.docs.has(id)) throw new Error(`${this.path}/${id} already exists`);
+    return this.set(id, doc);
+  }
+
+  async merge(id: string, fields: Partial<T>): Promise<void> {
+    this.docs.set(id, { ...this.docs.get(id), ...structuredClone(fields) });
+  }
+
+  async update(id: string, fields: Partial<T>): Promise<T | null> {
+    const doc = this.docs.get(id);
+    if (!doc) return null;
+    const merged = { ...doc, ...structuredClone(fields) };
+    this.docs.set(id, merged);
+    return structuredClone(merged) as T;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.docs.delete(id);
+  }
+
+  async deleteAll(): Promise<number> {
+    const count = this.docs.size;
+    this.docs.clear();
+    return count;
+  }
+}
+
+// In-process store for local development and integration tests. Data lives
+// only as long as the process does.
+export function createMemoryStore(): DocumentStore {
+  const collections = new Map<string, Map<string, Doc>>();
+  // Transactions run one at a time so read-modify-write stays atomic
+  let queue: Promise<unknown> = Promise.resolve();
+
+  function docsFor(path: string): Map<string, Doc> {
+    let docs = collections.get(path);
+    if (!docs) {
+      docs = new Map();
+      collections.set(path, docs);
+    }
+    return docs;
+  }
+
+  function collection<T>(path: string): Repository<T> {
+    return new MemoryRepository<T>(path, docsFor(path));
+  }
+
+  return {
+    backend: "memory",
+    collection,
+    runTransaction<R>(fn: (tx: Transaction) => Promise<R>): Promise<R> {
+      const run = async () => {
+        const writes: (() => void)[] = [];
+        const tx: Transaction = {
+          get: (repo, id) => collection<never>(repo.path).get(id),
+          set(repo, id, doc) {
+            writes.push(() => docsFor(repo.path).set(id, structuredClone(doc) as Doc));
+          },
+          update(repo, id, fields) {
+            writes.push(() => {
+              const docs = docsFor(repo.path);
+              const doc = docs.get(id);
+              if (!doc) throw new Error(`${repo.path}/${id} does not exist`);
+              docs.set(id, { ...doc, ...structuredClone(fields) });
+            });
+          },
+          delete(repo, id) {
+            writes.push(() => docsFor(repo.path).delete(id));
+          },
+        };
+        const result = await fn(tx);
+        for (const write of writes) write();
+        return result;
+      };
+      const result = queue.then(run, run);
+      queue = result.catch(() => undefined);
+      return result;
+    },
+  };
+}
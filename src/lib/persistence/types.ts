@@ -0,0 +1,89 @@
+import type { Readable } from "stream";
+
+export type WhereOp = "==" | "array-contains" | "in" | "<" | "<=" | ">" | ">=";
+
+export interface Query {
+  where?: [field: string, op: WhereOp, value: unknown][];
+  orderBy?: { field: string; direction?: "asc" | "desc" };
+  limit?: number;
+  // Document id to resume after (cursor pagination)
+  startAfter?: string;
+}
+
+export interface Repository<T> {
+  readonly path: string;
+  get(id: string): Promise<T | undefined>;
+  getMany(ids: string[]): Promise<T[]>;
+  find(query?: Query): Promise<T[]>;
+  findOne(query: Query): Promise<T | undefined>;
+  // Write the whole document, replacing anything already there
+  set(id: string, doc: T): Promise<T>;
+  // Write only if the id is not taken yet — used for append-only records
+  create(id: string, doc: T): Promise<T>;
+  // Shallow-merge top-level fields, creating the document if missing
+  merge(id: string, fields: Partial<T>): Promise<void>;
+  // Shallow-merge into an existing document; null when it does not exist
+  update(id: string, fields: Partial<T>): Promise<T | null>;
+  delete(id: string): Promise<boolean>;
+  deleteAll(): Promise<number>;
+}
+
+export interface Transaction {
+  get<T>(repo: Repository<T>, id: string): Promise<T | undefined>;
+  set<T>(repo: Repository<T>, id: string, doc: T): void;
+  update<T>(repo: Repository<T>, id: string, fields: Partial<T>): void;
+  delete<T>(repo: Repository<T>, id: string): void;
+}
+
+export interface DocumentStore {
+  readonly backend: "firestore" | "memory";
+  collection<T>(path: string): Repository<T>;
+  // All reads must happen before writes, as with Firestore transactions
+  runTransaction<R>(fn: (tx: Transaction) => Promise<R>): Promise<R>;
+}
+
+export interface BlobInfo {
+  path: string;
+  size: number;
+  contentType?: string;
+}
+
+export interface SaveOptions {
+  contentType: string;
+  public?: boolean;
+  cacheControl?: string;
+}
+
+export interface SignedUploadOptions {
+  contentType: string;
+  maxBytes: number;
+  expiresInMs: number;
+  public?: boolean;
+}
+
+export interface SignedUpload {
+  url: string;
+  method: "PUT";
+  // Must be sent with the upload exactly as given
+  headers: Record<string, string>;
+  expiresAt: string;
+}
+
+export interface BlobStore {
+  readonly backend: "gcs" | "local";
+  publicUrl(path: string): string;
+  // Returns the public URL of the stored object
+  save(path: string, data: Buffer, options: SaveOptions): Promise<string>;
+  // Same, piping `source` straight through — for files too large to buffer
+  saveStream(path: string, source: Readable, options: SaveOptions): Promise<string>;
+  // Contents of a stored object, streamed — errors if it does not exist
+  readStream(path: string): Readable;
+  // Undefined when the object does not exist
+  stat(path: string): Promise<BlobInfo | undefined>;
+  list(prefix: string): Promise<BlobInfo[]>;
+  delete(path: string): Promise<void>;
+  deletePrefix(prefix: string): Promise<number>;
+  signedReadUrl(path: string, options: { expiresInMs: number; filename?: string }): Promise<string>;
+  // Lets a client PUT one object directly, restricted to a content type and size
+  signedUploadUrl(path: string, options: SignedUploadOptions): Promise<SignedUpload>;
+}
@@ -0,0 +1,21 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import { assessPhotos } from "./photoQuality";
+
+const HEIC_FIXTURE = path.join(__dirname, "fixtures", "sample.heic");
+
+describe("assessPhotos", () => {
+  it("measures HEIC photos instead of calling them unreadable", async () => {
+    const { images } = await assessPhotos([HEIC_FIXTURE]);
+    assert.ok(!images[0].warnings.some((w) => w.issue === "unreadable"));
+    assert.equal(images[0].metrics?.width, 64);
+    assert.equal(images[0].metrics?.height, 48);
+  });
+
+  it("flags bytes that are not an image", async () => {
+    const { images, passed } = await assessPhotos([Buffer.from("not an image")]);
+    assert.equal(passed, false);
+    assert.deepEqual(images[0].warnings.map((w) => w.issue), ["unreadable"]);
+  });
+});
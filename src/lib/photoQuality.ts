@@ -0,0 +1,216 @@
+import sharp from "sharp";
+import { openImage } from "./photos";
+
+// Below these a photo is likely to produce a poor world. Blur and exposure
+// are measured on a copy scaled to ANALYSIS_WIDTH so they compare across
+// camera resolutions.
+const MIN_SHORT_EDGE = 1024;
+const ANALYSIS_WIDTH = 512;
+const MIN_SHARPNESS = 60;
+const MIN_BRIGHTNESS = 50;
+const MAX_BRIGHTNESS = 210;
+// Share of pixels crushed to black or blown to white
+const MAX_CLIPPED = 0.35;
+const MIN_ASPECT = 0.4;
+// Leaves room for 2:1 equirectangular panoramas
+const MAX_ASPECT = 2.5;
+// Of 64 hash bits — lower is more alike
+const DUPLICATE_DISTANCE = 5;
+
+export type PhotoIssue =
+  | "unreadable"
+  | "low_resolution"
+  | "blurry"
+  | "too_dark"
+  | "overexposed"
+  | "unusual_aspect_ratio"
+  | "duplicate";
+
+// A photo's bytes or file path, or a function that fetches it when its turn comes
+export type PhotoSource = Buffer | string | (() => Promise<Buffer>);
+
+export interface PhotoWarning {
+  issue: PhotoIssue;
+  message: string;
+}
+
+export interface PhotoMetrics {
+  width: number;
+  height: number;
+  // Variance of the Laplacian — higher is sharper
+  sharpness: number;
+  // Mean luma, 0–255
+  brightness: number;
+  darkShare: number;
+  brightShare: number;
+}
+
+export interface PhotoAssessment {
+  index: number;
+  // 0–100, 100 meaning no warnings
+  score: number;
+  metrics?: PhotoMetrics;
+  warnings: PhotoWarning[];
+}
+
+export interface QualityReport {
+  images: PhotoAssessment[];
+  // No image has any warning
+  passed: boolean;
+}
+
+const PENALTIES: Record<PhotoIssue, number> = {
+  unreadable: 100,
+  low_resolution: 30,
+  blurry: 40,
+  too_dark: 30,
+  overexposed: 30,
+  unusual_aspect_ratio: 20,
+  duplicate: 20,
+};
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+// Discrete Laplacian over the greyscale pixels; its variance drops as edges soften
+function laplacianVariance(pixels: Buffer, width: number, height: number): number {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = pixels[i - width] + pixels[i + width] + pixels[i - 1] + pixels[i + 1] - 4 * pixels[i];
+      sum += value;
+      sumSquares += value * value;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+}
+
+// Difference hash: each bit says whether a pixel is brighter than its right
+// neighbour on a 9×8 thumbnail. Near-identical photos differ in few bits.
+// Built from the greyscale analysis copy so the photo is decoded only once.
+async function differenceHash(grey: Buffer, width: number, height: number): Promise<bigint> {
+  const pixels = await sharp(grey, { raw: { width, height, channels: 1 } })
+    .resize(9, 8, { fit: "fill" })
+    .raw()
+    .toBuffer();
+  let hash = 0n;
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      hash = (hash << 1n) | (pixels[y * 9 + x] > pixels[y * 9 + x + 1] ? 1n : 0n);
+    }
+  }
+  return hash;
+}
+
+function hammingDistance(a: bigint, b: bigint): number {
+  let diff = a ^ b;
+  let bits = 0;
+  while (diff) {
+    bits += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return bits;
+}
+
+async function measure(image: Buffer | string): Promise<{ metrics: PhotoMetrics; hash: bigint }> {
+  // One pipeline for both reads, so a HEIC photo is only decoded once
+  const pipeline = await openImage(image);
+  const metadata = await pipeline.metadata();
+  // EXIF orientations 5–8 are rotated a quarter turn
+  const turned = (metadata.orientation ?? 1) >= 5;
+  const width = (turned ? metadata.height : metadata.width) ?? 0;
+  const height = (turned ? metadata.width : metadata.height) ?? 0;
+  const { data, info } = await pipeline
+    .rotate()
+    .greyscale()
+    .resize({ width: ANALYSIS_WIDTH })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  let total = 0;
+  let dark = 0;
+  let bright = 0;
+  for (const value of data) {
+    total += value;
+    if (value <= 10) dark++;
+    if (value >= 245) bright++;
+  }
+  return {
+    metrics: {
+      width,
+      height,
+      sharpness: round(laplacianVariance(data, info.width, info.height)),
+      brightness: round(total / data.length),
+      darkShare: round(dark / data.length, 3),
+      brightShare: round(bright / data.length, 3),
+    },
+    hash: await differenceHash(data, info.width, info.height),
+  };
+}
+
+function warningsFor(metrics: PhotoMetrics): PhotoWarning[] {
+  const warnings: PhotoWarning[] = [];
+  const shortEdge = Math.min(metrics.width, metrics.height);
+  if (shortEdge < MIN_SHORT_EDGE) {
+    warnings.push({
+      issue: "low_resolution",
+      message: `Only ${metrics.width}×${metrics.height} — use photos at least ${MIN_SHORT_EDGE}px on the short side`,
+    });
+  }
+  if (metrics.sharpness < MIN_SHARPNESS) {
+    warnings.push({ issue: "blurry", message: "Photo looks blurry — hold the camera steady or retake it" });
+  }
+  if (metrics.brightness < MIN_BRIGHTNESS || metrics.darkShare > MAX_CLIPPED) {
+    warnings.push({ issue: "too_dark", message: "Photo is underexposed — turn on the lights or open the blinds" });
+  } else if (metrics.brightness > MAX_BRIGHTNESS || metrics.brightShare > MAX_CLIPPED) {
+    warnings.push({ issue: "overexposed", message: "Photo is overexposed — avoid shooting into windows" });
+  }
+  const aspect = metrics.width / metrics.height;
+  if (aspect < MIN_ASPECT || aspect > MAX_ASPECT) {
+    warnings.push({ issue: "unusual_aspect_ratio", message: "Unusual aspect ratio — crop less or use the camera's normal mode" });
+  }
+  return warnings;
+}
+
+// Score each photo before it is sent for generation. Images are analysed one
+// at a time — and fetched one at a time if given as functions — to keep at
+// most one photo in memory.
+export async function assessPhotos(images: PhotoSource[]): Promise<QualityReport> {
+  const assessments: PhotoAssessment[] = [];
+  const hashes: (bigint | undefined)[] = [];
+
+  for (const [index, source] of images.entries()) {
+    const image = typeof source === "function" ? await source() : source;
+    const measured = await measure(image).catch(() => null);
+    if (!measured) {
+      hashes.push(undefined);
+      assessments.push({
+        index,
+        score: 0,
+        warnings: [{ issue: "unreadable", message: "Photo could not be read — upload a JPEG, PNG, WebP or HEIC image" }],
+      });
+      continue;
+    }
+
+    const { metrics, hash } = measured;
+    const warnings = warningsFor(metrics);
+    const duplicateOf = hashes.findIndex((other) => other !== undefined && hammingDistance(other, hash) <= DUPLICATE_DISTANCE);
+    if (duplicateOf !== -1) {
+      warnings.push({ issue: "duplicate", message: `Nearly identical to photo ${duplicateOf + 1}` });
+    }
+    hashes.push(hash);
+
+    const penalty = warnings.reduce((sum, w) => sum + PENALTIES[w.issue], 0);
+    assessments.push({ index, score: Math.max(0, 100 - penalty), metrics, warnings });
+  }
+
+  return { images: assessments, passed: assessments.every((a) => a.warnings.length === 0) };
+}
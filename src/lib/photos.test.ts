@@ -0,0 +1,63 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createReadStream, promises as fs } from "fs";
+import path from "path";
+import sharp from "sharp";
+import { blobs } from "./persistence";
+import { normalizePhoto, openImage } from "./photos";
+
+// 64×48, HEVC-coded like an iPhone photo: red left half, blue right half,
+// green stripe along the top
+const HEIC_FIXTURE = path.join(__dirname, "fixtures", "sample.heic");
+
+async function pixel(image: sharp.Sharp, x: number, y: number): Promise<number[]> {
+  const { data, info } = await image.removeAlpha().raw().toBuffer({ resolveWithObject: true });
+  const i = (y * info.width + x) * info.channels;
+  return [data[i], data[i + 1], data[i + 2]];
+}
+
+function assertNear(actual: number[], expected: number[]) {
+  actual.forEach((value, i) => assert.ok(Math.abs(value - expected[i]) < 40, `${actual} is not close to ${expected}`));
+}
+
+describe("openImage", () => {
+  it("is a HEVC HEIC that sharp cannot decode on its own", async () => {
+    await assert.rejects(sharp(HEIC_FIXTURE).toBuffer());
+  });
+
+  for (const [name, source] of [
+    ["file path", () => HEIC_FIXTURE],
+    ["buffer", () => fs.readFile(HEIC_FIXTURE)],
+    ["stream", () => createReadStream(HEIC_FIXTURE)],
+  ] as const) {
+    it(`decodes HEIC from a ${name}`, async () => {
+      const image = await openImage(await source());
+      const { width, height } = await image.metadata();
+      assert.equal(width, 64);
+      assert.equal(height, 48);
+      assertNear(await pixel(image, 10, 30), [220, 30, 20]);
+      assertNear(await pixel(await openImage(await source()), 50, 30), [20, 30, 220]);
+      assertNear(await pixel(await openImage(await source()), 30, 2), [0, 200, 0]);
+    });
+  }
+
+  it("leaves other formats to sharp", async () => {
+    const png = await sharp({ create: { width: 8, height: 4, channels: 3, background: "#00ff00" } }).png().toBuffer();
+    const { width, format } = await (await openImage(png)).metadata();
+    assert.equal(width, 8);
+    assert.equal(format, "png");
+  });
+});
+
+describe("normalizePhoto", () => {
+  it("stores a HEIC upload as JPEG and WebP renditions", async () => {
+    const basePath = `test/${Date.now()}/photo`;
+    const derivatives = await normalizePhoto(createReadStream(HEIC_FIXTURE), basePath);
+    assert.equal(derivatives.width, 64);
+    assert.equal(derivatives.height, 48);
+
+    const full = await blobs.stat(`${basePath}-full.jpg`);
+    assert.ok(full && full.size > 0);
+    await blobs.deletePrefix(`test/`);
+  });
+});
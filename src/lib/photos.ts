@@ -0,0 +1,135 @@
+import { promises as fs } from "fs";
+import decodeHeic from "heic-decode";
+import sharp from "sharp";
+import { Readable } from "stream";
+import { blobs } from "./persistence";
+import type { ImageDerivatives } from "./storage";
+
+// Longest edge of each rendition. `full` is what providers receive, so it
+// stays JPEG; the smaller ones are only displayed and go out as WebP.
+const FULL_MAX_DIMENSION = 4096;
+const MEDIUM_MAX_DIMENSION = 1600;
+const THUMB_MAX_DIMENSION = 400;
+
+// HEIF brands whose images are HEVC-coded. sharp's bundled libheif only
+// decodes AVIF, so iPhone photos go through heic-decode instead.
+const HEVC_BRANDS = new Set(["heic", "heix", "heim", "heis", "hevc", "hevx", "hevm", "hevs"]);
+// Enough of the file to hold the `ftyp` box and its brands
+const SNIFF_BYTES = 64;
+
+// Reads the major and compatible brands of an ISO-BMFF `ftyp` box
+function isHevcHeif(head: Buffer): boolean {
+  if (head.length < 12 || head.toString("latin1", 4, 8) !== "ftyp") return false;
+  const end = Math.min(head.readUInt32BE(0), head.length);
+  for (let offset = 8; offset + 4 <= end; offset += 4) {
+    // Bytes 12–16 are the minor version, not a brand
+    if (offset !== 12 && HEVC_BRANDS.has(head.toString("latin1", offset, offset + 4))) return true;
+  }
+  return false;
+}
+
+async function readHead(path: string): Promise<Buffer> {
+  const file = await fs.open(path, "r");
+  try {
+    const { buffer, bytesRead } = await file.read(Buffer.alloc(SNIFF_BYTES), 0, SNIFF_BYTES, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await file.close();
+  }
+}
+
+// Take chunks off `source` until SNIFF_BYTES have arrived, and hand back a
+// stream that replays them before the rest
+async function peekStream(source: Readable): Promise<{ head: Buffer; stream: Readable }> {
+  const chunks: Buffer[] = [];
+  const iterator: AsyncIterator<Buffer> = source[Symbol.asyncIterator]();
+  let length = 0;
+  while (length < SNIFF_BYTES) {
+    const next = await iterator.next();
+    if (next.done) break;
+    chunks.push(next.value);
+    length += next.value.length;
+  }
+  const stream = Readable.from(
+    (async function* () {
+      yield* chunks;
+      for (let next = await iterator.next(); !next.done; next = await iterator.next()) yield next.value;
+    })()
+  );
+  return { head: Buffer.concat(chunks), stream };
+}
+
+async function decodeHevc(data: Buffer): Promise<sharp.Sharp> {
+  // libheif applies the rotation and mirroring stored in the file, so the pixels are already upright
+  const { width, height, data: rgba } = await decodeHeic({ buffer: data });
+  return sharp(Buffer.from(rgba.buffer, rgba.byteOffset, rgba.byteLength), { raw: { width, height, channels: 4 } });
+}
+
+// A sharp pipeline over `source`, a file path, the bytes or a stream of an
+// image. HEVC-coded HEIC is decoded up front, which needs the whole file in memory.
+export async function openImage(source: string | Buffer | Readable): Promise<sharp.Sharp> {
+  if (Buffer.isBuffer(source)) return isHevcHeif(source) ? decodeHevc(source) : sharp(source);
+  if (typeof source === "string") {
+    return isHevcHeif(await readHead(source)) ? decodeHevc(await fs.readFile(source)) : sharp(source);
+  }
+
+  const { head, stream } = await peekStream(source);
+  if (isHevcHeif(head)) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) chunks.push(chunk);
+    return decodeHevc(Buffer.concat(chunks));
+  }
+  const transformer = sharp();
+  stream.on("error", (err) => transformer.destroy(err));
+  return stream.pipe(transformer);
+}
+
+function fitWithin(maxDimension: number): sharp.ResizeOptions {
+  return { width: maxDimension, height: maxDimension, fit: "inside", withoutEnlargement: true };
+}
+
+// Decode any supported format (HEIC, PNG, WebP, JPEG), turn it upright from
+// its EXIF orientation and re-encode. sharp writes no metadata unless asked,
+// so EXIF — including GPS position — never reaches storage.
+async function encodeFull(source: string | Buffer | Readable): Promise<{ data: Buffer; info: sharp.OutputInfo }> {
+  try {
+    return await (await openImage(source))
+      .rotate()
+      // JPEG has no alpha — transparent PNGs (floor plans especially) go on white, not black
+      .flatten({ background: "#ffffff" })
+      .resize(fitWithin(FULL_MAX_DIMENSION))
+      .jpeg({ quality: 90, mozjpeg: true })
+      .toBuffer({ resolveWithObject: true });
+  } catch (err) {
+    throw new Error(`Unreadable image: ${err instanceof Error ? err.message : "unknown error"}`);
+  }
+}
+
+async function encodeWebp(full: Buffer, maxDimension: number, quality: number): Promise<Buffer> {
+  return sharp(full).resize(fitWithin(maxDimension)).webp({ quality }).toBuffer();
+}
+
+// Store `source` as `${basePath}-full.jpg`, `-medium.webp` and `-thumb.webp`.
+// `source` is a file path, the bytes or a stream of an uploaded photo.
+export async function normalizePhoto(source: string | Buffer | Readable, basePath: string): Promise<ImageDerivatives> {
+  const { data, info } = await encodeFull(source);
+  const [medium, thumb] = await Promise.all([
+    encodeWebp(data, MEDIUM_MAX_DIMENSION, 85),
+    encodeWebp(data, THUMB_MAX_DIMENSION, 75),
+  ]);
+
+  const [fullUrl, mediumUrl, thumbUrl] = await Promise.all([
+    blobs.save(`${basePath}-full.jpg`, data, { contentType: "image/jpeg", public: true }),
+    blobs.save(`${basePath}-medium.webp`, medium, { contentType: "image/webp", public: true }),
+    blobs.save(`${basePath}-thumb.webp`, thumb, { contentType: "image/webp", public: true }),
+  ]);
+
+  console.log(`📦 Normalized photo ${basePath} — ${info.width}×${info.height}, ${data.length} bytes`);
+  return { full: fullUrl, medium: mediumUrl, thumb: thumbUrl, width: info.width, height: info.height };
+}
+
+// Floor plans are only shown at one size
+export async function normalizeFloorPlan(source: string | Buffer | Readable, basePath: string): Promise<string> {
+  const { data } = await encodeFull(source);
+  return blobs.save(`${basePath}.jpg`, data, { contentType: "image/jpeg", public: true });
+}
@@ -0,0 +1,97 @@
+import type { Space } from "./storage";
+
+export const ROOM_TYPES = {
+  living_room: "living room",
+  kitchen: "kitchen",
+  dining_room: "dining room",
+  bedroom: "bedroom",
+  bathroom: "bathroom",
+  office: "home office",
+  hallway: "hallway",
+  garage: "garage",
+  exterior: "exterior",
+  garden: "garden",
+} as const;
+
+export type RoomType = keyof typeof ROOM_TYPES;
+
+// Known styles get a readable phrase; anything else is used as given
+export const PROMPT_STYLES: Record<string, string> = {
+  modern_luxury: "modern luxury",
+  scandinavian: "Scandinavian",
+  industrial: "industrial loft",
+  minimalist: "minimalist",
+  traditional: "traditional",
+  coastal: "coastal",
+  farmhouse: "farmhouse",
+};
+
+export const PROMPT_VARIABLES = ["name", "address", "description", "roomType", "style"] as const;
+
+export type PromptVariable = (typeof PROMPT_VARIABLES)[number];
+
+// One clause per line — lines whose variables are all empty are left out
+export const DEFAULT_PROMPT_TEMPLATE = [
+  "{{name}}.",
+  "A {{roomType}}.",
+  "{{description}}",
+  "Interior style: {{style}}.",
+].join("\n");
+
+// Team-wide defaults, each overridable per generation request
+export interface GenerationSettings {
+  model?: string;
+  style?: string;
+  roomType?: RoomType;
+  promptTemplate?: string;
+  // Refuse generation when any photo fails the quality checks, instead of warning
+  strictQuality?: boolean;
+}
+
+export interface PromptOverrides {
+  style?: string;
+  roomType?: RoomType;
+  promptTemplate?: string;
+}
+
+export interface ResolvedPrompt {
+  text: string;
+  template: string;
+  variables: Record<PromptVariable, string>;
+}
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+export function templateVariables(template: string): string[] {
+  return [...template.matchAll(VARIABLE_PATTERN)].map((match) => match[1]);
+}
+
+export function renderPrompt(template: string, variables: Record<PromptVariable, string>): string {
+  const lines = template.split("\n").flatMap((line) => {
+    const used = templateVariables(line);
+    const values = used.map((name) => variables[name as PromptVariable] ?? "");
+    if (used.length > 0 && values.every((value) => !value.trim())) return [];
+    return [line.replace(VARIABLE_PATTERN, (_, name: string) => (variables[name as PromptVariable] ?? "").trim())];
+  });
+  return lines.map((line) => line.trim()).filter(Boolean).join(" ");
+}
+
+// Request overrides win over team defaults, which win over the built-in template
+export function resolvePrompt(
+  space: Pick<Space, "name" | "address" | "description">,
+  defaults: GenerationSettings | undefined,
+  overrides: PromptOverrides = {}
+): ResolvedPrompt {
+  const template = overrides.promptTemplate || defaults?.promptTemplate || DEFAULT_PROMPT_TEMPLATE;
+  const style = overrides.style || defaults?.style;
+  const roomType = overrides.roomType || defaults?.roomType;
+
+  const variables: Record<PromptVariable, string> = {
+    name: space.name,
+    address: space.address || "",
+    description: space.description || "",
+    roomType: roomType ? ROOM_TYPES[roomType] : "",
+    style: style ? PROMPT_STYLES[style] ?? style.replace(/_/g, " ") : "",
+  };
+  return { text: renderPrompt(template, variables), template, variables };
+}
@@ -0,0 +1,60 @@
+import { createWorldLabsProvider } from "./worldlabs";
+import { createLocalProvider } from "./local";
+import type { GenerationProvider, ProviderModel } from "./types";
+
+// GENERATION_PROVIDER=local runs the whole generation flow offline, serving
+// the files in LOCAL_PROVIDER_DIR as the result of every generation
+export const DEFAULT_PROVIDER = process.env.GENERATION_PROVIDER === "local" ? "local" : "worldlabs";
+
+export const LOCAL_PROVIDER_DIR = process.env.LOCAL_PROVIDER_DIR || ".data/local-provider";
+const LOCAL_PROVIDER_DELAY_MS = parseInt(process.env.LOCAL_PROVIDER_DELAY_MS || "10000", 10);
+
+const providers = new Map<string, GenerationProvider>();
+
+export function registerProvider(provider: GenerationProvider): void {
+  providers.set(provider.id, provider);
+}
+
+registerProvider(createWorldLabsProvider());
+if (DEFAULT_PROVIDER === "local") {
+  registerProvider(createLocalProvider(LOCAL_PROVIDER_DIR, LOCAL_PROVIDER_DELAY_MS));
+}
+
+export function getProvider(id: string): GenerationProvider | undefined {
+  return providers.get(id);
+}
+
+export function listProviders(): GenerationProvider[] {
+  return [...providers.values()];
+}
+
+export interface ResolvedModel {
+  provider: GenerationProvider;
+  model: ProviderModel;
+}
+
+// A model id is looked up across all providers, preferring `providerId` when
+// given. No model id means the default provider's default model.
+export function resolveModel(modelId?: string | null, providerId?: string): ResolvedModel | undefined {
+  if (!modelId) {
+    const provider = providers.get(DEFAULT_PROVIDER)!;
+    const model = provider.models.find((m) => m.default) ?? provider.models[0];
+    return { provider, model };
+  }
+
+  const candidates = providerId ? [providers.get(providerId)] : listProviders();
+  for (const provider of candidates) {
+    const model = provider?.models.find((m) => m.id === modelId);
+    if (provider && model) return { provider, model };
+  }
+  return undefined;
+}
+
+export type {
+  GenerationProvider,
+  ProviderCapabilities,
+  ProviderModel,
+  PollResult,
+  SubmitRequest,
+  WorldOutput,
+} from "./types";
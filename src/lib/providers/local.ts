@@ -0,0 +1,78 @@
+import { randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { pathToFileURL } from "url";
+import type { GenerationProvider, WorldOutput } from "./types";
+
+// Files picked up from the assets directory — any subset works
+const ASSET_FILES: Record<string, (output: WorldOutput, url: string) => void> = {
+  "thumbnail.jpg": (o, url) => (o.thumbnailUrl = url),
+  "thumbnail.png": (o, url) => (o.thumbnailUrl = url),
+  "thumbnail.webp": (o, url) => (o.thumbnailUrl = url),
+  "panorama.jpg": (o, url) => (o.panoramaUrl = url),
+  "panorama.png": (o, url) => (o.panoramaUrl = url),
+  "panorama.webp": (o, url) => (o.panoramaUrl = url),
+  "model.spz": (o, url) => (o.splatUrls = { ...o.splatUrls, full: url }),
+  "model-500k.spz": (o, url) => (o.splatUrls = { ...o.splatUrls, "500k": url }),
+  "model-100k.spz": (o, url) => (o.splatUrls = { ...o.splatUrls, "100k": url }),
+  "model.glb": (o, url) => (o.meshUrl = url),
+};
+
+// Serves the same canned world from `assetsDir` for every request, finishing
+// `delayMs` after submission. The submit time is encoded in the operation id
+// so polling survives a restart. For developing and demoing offline.
+export function createLocalProvider(assetsDir: string, delayMs: number): GenerationProvider {
+  const root = path.resolve(assetsDir);
+  const cancelled = new Set<string>();
+
+  async function cannedAssets(worldId: string): Promise<WorldOutput> {
+    const output: WorldOutput = { worldId };
+    const files = await fs.readdir(root).catch(() => [] as string[]);
+    for (const file of files) {
+      ASSET_FILES[file]?.(output, pathToFileURL(path.join(root, file)).href);
+    }
+    return output;
+  }
+
+  return {
+    id: "local",
+    label: "Local (canned assets)",
+    models: [{ id: "local-canned", label: "Canned world", default: true }],
+    capabilities: {
+      imageInput: true,
+      textInput: true,
+      panoramaInput: true,
+      multiImage: true,
+      maxImages: 15,
+      cancel: true,
+      mesh: true,
+      panorama: true,
+    },
+
+    async submit({ model }) {
+      const assets = await cannedAssets("check");
+      if (!assets.splatUrls && !assets.meshUrl && !assets.panoramaUrl) {
+        throw new Error(`No canned assets found in ${root}`);
+      }
+      const operationId = `local-${Date.now().toString(36)}-${randomBytes(4).toString("hex")}`;
+      console.log(`🎨 Local provider — submitted ${operationId} (${model})`);
+      return operationId;
+    },
+
+    async poll(operationId) {
+      if (cancelled.has(operationId)) return { done: true, error: "Generation cancelled" };
+      const submittedAt = parseInt(operationId.split("-")[1] ?? "", 36);
+      if (Number.isNaN(submittedAt)) return { done: true, error: `Unknown operation ${operationId}` };
+      if (Date.now() - submittedAt < delayMs) return { done: false };
+      return { done: true, worldId: `world-${operationId}` };
+    },
+
+    async fetchAssets(worldId) {
+      return cannedAssets(worldId);
+    },
+
+    async cancel(operationId) {
+      cancelled.add(operationId);
+    },
+  };
+}
@@ -0,0 +1,67 @@
+import type { GenerationInput } from "../operations";
+
+export interface ProviderModel {
+  // Sent to the provider and stored on the operation record
+  id: string;
+  label: string;
+  // Used when a request does not name a model
+  default?: boolean;
+}
+
+export interface ProviderCapabilities {
+  imageInput: boolean;
+  textInput: boolean;
+  // Equirectangular 360° photos as input
+  panoramaInput: boolean;
+  // Several photos of the same room combined into one world
+  multiImage: boolean;
+  maxImages: number;
+  // The provider can stop a running generation — otherwise cancelling only
+  // abandons it on our side
+  cancel: boolean;
+  mesh: boolean;
+  panorama: boolean;
+}
+
+export interface SubmitRequest {
+  model: string;
+  input: GenerationInput;
+  // Image bytes for image and panorama input — already in memory on a fresh upload
+  imageBase64?: string;
+}
+
+export interface PollResult {
+  done: boolean;
+  // Set when the generation succeeded
+  worldId?: string;
+  // Set when the generation failed
+  error?: string;
+}
+
+// Where a finished world's assets can be downloaded from, before ingestion
+export interface WorldOutput {
+  worldId: string;
+  // Provider-hosted viewer, stored as the space's marbleUrl
+  viewerUrl?: string;
+  thumbnailUrl?: string;
+  panoramaUrl?: string;
+  splatUrls?: {
+    full?: string;
+    "500k"?: string;
+    "100k"?: string;
+  };
+  meshUrl?: string;
+}
+
+export interface GenerationProvider {
+  readonly id: string;
+  readonly label: string;
+  readonly models: ProviderModel[];
+  readonly capabilities: ProviderCapabilities;
+  // Returns the provider's operation id
+  submit(request: SubmitRequest): Promise<string>;
+  poll(operationId: string): Promise<PollResult>;
+  fetchAssets(worldId: string): Promise<WorldOutput>;
+  // Only present when capabilities.cancel is set
+  cancel?(operationId: string): Promise<void>;
+}
@@ -0,0 +1,69 @@
+import {
+  generateWorldFromImageBase64,
+  generateWorldFromImageUrls,
+  generateWorldFromText,
+  getOperation,
+  getWorld,
+} from "../worldlabs";
+import type { GenerationProvider } from "./types";
+
+export function createWorldLabsProvider(): GenerationProvider {
+  return {
+    id: "worldlabs",
+    label: "World Labs Marble",
+    models: [
+      { id: "Marble 0.1-plus", label: "Marble Plus", default: true },
+      { id: "Marble 0.1-mini", label: "Marble Mini (draft)" },
+    ],
+    capabilities: {
+      imageInput: true,
+      textInput: true,
+      panoramaInput: true,
+      multiImage: true,
+      // Larger sets are thinned out evenly before submission
+      maxImages: 8,
+      cancel: false,
+      mesh: true,
+      panorama: true,
+    },
+
+    async submit({ model, input, imageBase64 }) {
+      if (input.type === "image" || input.type === "panorama") {
+        if (!imageBase64) throw new Error("Image input requires image data");
+        return generateWorldFromImageBase64(imageBase64, input.textPrompt, model, input.type === "panorama");
+      }
+      if (input.type === "multi-image") {
+        // Sent by URL — WorldLabs fetches the stored photos itself
+        return generateWorldFromImageUrls(input.images ?? [], input.textPrompt, model);
+      }
+      return generateWorldFromText(input.textPrompt, model);
+    },
+
+    async poll(operationId) {
+      const operation = await getOperation(operationId);
+      if (operation.done && operation.response) {
+        return { done: true, worldId: operation.response.world_id };
+      }
+      if (operation.done) {
+        return { done: true, error: operation.error?.message || "Generation failed" };
+      }
+      return { done: false };
+    },
+
+    async fetchAssets(worldId) {
+      const world = await getWorld(worldId);
+      return {
+        worldId: world.world_id,
+        viewerUrl: world.world_marble_url,
+        thumbnailUrl: world.assets?.thumbnail_url,
+        panoramaUrl: world.assets?.panorama_url,
+        splatUrls: {
+          full: world.assets?.splats?.spz_urls?.full_res,
+          "500k": world.assets?.splats?.spz_urls?.["500k"],
+          "100k": world.assets?.splats?.spz_urls?.["100k"],
+        },
+        meshUrl: world.assets?.mesh?.glb_url,
+      };
+    },
+  };
+}
@@ -1,4 +1,6 @@
 import { z } from "zod";
+import { PROMPT_VARIABLES, ROOM_TYPES, templateVariables, type RoomType } from "./prompts";
+import { ALLOWED_IMAGE_TYPES, MAX_IMAGE_BYTES, MAX_IMAGES } from "./uploads";
 
 // Spaces
 export const createSpaceSchema = z.object({
@@ -72,6 +74,103 @@ export const updateInviteSchema = z.object({
   enabled: z.boolean(),
 });
 
+export const createInvitationSchema = z.object({
+  email: z.string().email().max(320),
+  role: z.enum(["admin", "editor", "viewer"]).default("editor"),
+});
+
+export const acceptInvitationSchema = z.object({
+  token: z.string().min(1).max(100),
+});
+
+export const createApiKeySchema = z.object({
+  name: z.string().min(1).max(100),
+  scopes: z.array(z.enum(["read", "write", "generate"])).min(1),
+});
+
+export const auditQuerySchema = z.object({
+  action: z.string().max(100).optional(),
+  actorUid: z.string().max(128).optional(),
+  targetType: z.string().max(50).optional(),
+  targetId: z.string().max(128).optional(),
+  since: z.string().datetime().optional(),
+  until: z.string().datetime().optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+  cursor: z.string().max(128).optional(),
+});
+
+// Billing
+export const ledgerQuerySchema = z.object({
+  type: z.enum(["grant", "renewal", "debit", "refund", "adjustment", "expiration"]).optional(),
+  since: z.string().datetime().optional(),
+  until: z.string().datetime().optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+  cursor: z.string().max(128).optional(),
+  format: z.enum(["json", "csv"]).default("json"),
+});
+
+export const transferTeamSchema = z.object({
+  toUid: z.string().min(1),
+});
+
+export const updateMemberRoleSchema = z.object({
+  role: z.enum(["admin", "editor", "viewer"]),
+});
+
+// Generation
+const promptTemplate = z
+  .string()
+  .min(1)
+  .max(2000)
+  .refine(
+    (template) => templateVariables(template).every((name) => (PROMPT_VARIABLES as readonly string[]).includes(name)),
+    `Unknown template variable — use ${PROMPT_VARIABLES.map((v) => `{{${v}}}`).join(", ")}`
+  );
+const promptStyle = z.string().regex(/^[a-z0-9_]+$/, "Lowercase letters, digits and underscores only").max(50);
+const roomType = z.enum(Object.keys(ROOM_TYPES) as [RoomType, ...RoomType[]]);
+
+// Multipart form fields — arrays arrive JSON-encoded and empty fields as ""
+const formField = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess((value) => (value === "" ? undefined : value), schema.optional());
+
+// Direct uploads
+const uploadFileSchema = z.object({
+  name: z.string().min(1).max(255),
+  contentType: z.enum(ALLOWED_IMAGE_TYPES),
+  size: z.number().int().min(1).max(MAX_IMAGE_BYTES),
+});
+
+export const createUploadSessionSchema = z.object({
+  files: z.array(uploadFileSchema).min(1).max(MAX_IMAGES),
+  floorplan: uploadFileSchema.optional(),
+});
+
+export const generateOptionsSchema = z.object({
+  // Where the photos come from — defaults to the request's files, or text-only without any
+  source: z.enum(["upload", "stored", "text"]).optional(),
+  mode: z.enum(["auto", "single", "multi", "panorama"]).default("auto"),
+  style: formField(promptStyle),
+  roomType: formField(roomType),
+  promptTemplate: formField(promptTemplate),
+  // Viewing direction of each uploaded photo, in upload order
+  azimuths: z.preprocess((value) => {
+    if (typeof value !== "string" || !value) return value || undefined;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }, z.array(z.number().min(0).max(360)).max(MAX_IMAGES).optional()),
+});
+
+export const generationSettingsSchema = z.object({
+  model: z.string().min(1).max(100).nullable(),
+  style: promptStyle.nullable(),
+  roomType: roomType.nullable(),
+  promptTemplate: promptTemplate.nullable(),
+  strictQuality: z.boolean().nullable(),
+}).partial();
+
 // Profile
 export const updateProfileSchema = z
   .object({
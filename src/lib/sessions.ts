@@ -0,0 +1,81 @@
+import { createHash } from "crypto";
+import { store } from "./persistence";
+
+export interface Session {
+  id: string;
+  uid: string;
+  device: string;
+  userAgent: string;
+  ip: string;
+  createdAt: string;
+  expiresAt: string;
+  revokedAt: string | null;
+}
+
+export function sessionsRepo(uid: string) {
+  return store.collection<Session>(`users/${uid}/sessions`);
+}
+
+// Sessions are keyed by a hash of the cookie so the raw cookie is never stored
+export function sessionIdFromCookie(cookie: string): string {
+  return createHash("sha256").update(cookie).digest("hex");
+}
+
+// Rough "Browser on OS" label for the sessions list
+export function describeDevice(userAgent: string): string {
+  const os =
+    /iPhone|iPad/.test(userAgent) ? "iOS" :
+    /Android/.test(userAgent) ? "Android" :
+    /Mac OS X/.test(userAgent) ? "macOS" :
+    /Windows/.test(userAgent) ? "Windows" :
+    /Linux/.test(userAgent) ? "Linux" : "Unknown OS";
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Safari\//.test(userAgent) ? "Safari" : "Unknown browser";
+  return `${browser} on ${os}`;
+}
+
+export async function createSession(session: Session): Promise<Session> {
+  console.log(`💾 Firestore: recording session for user ${session.uid} (${session.device})`);
+  return sessionsRepo(session.uid).set(session.id, session);
+}
+
+export async function getSession(uid: string, id: string): Promise<Session | undefined> {
+  return sessionsRepo(uid).get(id);
+}
+
+export async function getActiveSessions(uid: string): Promise<Session[]> {
+  const sessions = await sessionsRepo(uid).find({ where: [["revokedAt", "==", null]] });
+  const now = new Date().toISOString();
+  return sessions
+    .filter((s) => s.expiresAt > now)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function revokeSession(uid: string, id: string): Promise<boolean> {
+  console.log(`💾 Firestore: revoking session ${id.slice(0, 8)}… for user ${uid}`);
+  const updated = await sessionsRepo(uid).update(id, { revokedAt: new Date().toISOString() });
+  return !!updated;
+}
+
+export async function revokeAllSessions(uid: string): Promise<number> {
+  const repo = sessionsRepo(uid);
+  const sessions = await repo.find({ where: [["revokedAt", "==", null]] });
+  console.log(`💾 Firestore: revoking ${sessions.length} sessions for user ${uid}`);
+  const now = new Date().toISOString();
+  await store.runTransaction(async (tx) => {
+    for (const session of sessions) {
+      tx.update(repo, session.id, { revokedAt: now });
+    }
+  });
+  return sessions.length;
+}
+
+// Cookies minted before sessions were recorded have no doc and stay valid
+// until they expire or the user signs out everywhere
+export async function isSessionRevoked(uid: string, cookie: string): Promise<boolean> {
+  const session = await getSession(uid, sessionIdFromCookie(cookie));
+  return !!session?.revokedAt;
+}
@@ -0,0 +1,85 @@
+import { EventEmitter } from "events";
+import type { Space } from "./storage";
+
+export type SpaceEventPhase = "uploading" | "generating" | "compressing" | "ready" | "failed";
+
+export type SpaceAssets = Pick<
+  Space,
+  | "originalImageUrl"
+  | "imageUrls"
+  | "imageDerivatives"
+  | "thumbnailUrl"
+  | "panoramaUrl"
+  | "splatUrl"
+  | "splatUrl500k"
+  | "splatUrl100k"
+  | "meshUrl"
+  | "marbleUrl"
+>;
+
+export interface SpaceEvent {
+  spaceId: string;
+  teamId: string;
+  phase: SpaceEventPhase;
+  status: Space["status"];
+  // Which asset finished, for "compressing" events
+  step?: string;
+  message?: string;
+  operationId?: string;
+  assets: SpaceAssets;
+  at: string;
+}
+
+// In-process only — subscribers see events published by this instance,
+// which is where the generation worker finalizing the space runs
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+function pickAssets(space: Partial<Space>): SpaceAssets {
+  return {
+    originalImageUrl: space.originalImageUrl,
+    imageUrls: space.imageUrls,
+    imageDerivatives: space.imageDerivatives,
+    thumbnailUrl: space.thumbnailUrl,
+    panoramaUrl: space.panoramaUrl,
+    splatUrl: space.splatUrl,
+    splatUrl500k: space.splatUrl500k,
+    splatUrl100k: space.splatUrl100k,
+    meshUrl: space.meshUrl,
+    marbleUrl: space.marbleUrl,
+  };
+}
+
+export function spaceEvent(
+  space: Space,
+  phase: SpaceEventPhase,
+  extra: { step?: string; message?: string; assets?: Partial<SpaceAssets> } = {}
+): SpaceEvent {
+  return {
+    spaceId: space.id,
+    teamId: space.teamId,
+    phase,
+    status: space.status,
+    step: extra.step,
+    message: extra.message ?? (phase === "failed" ? space.errorMessage : undefined),
+    operationId: space.operationId,
+    assets: { ...pickAssets(space), ...extra.assets },
+    at: new Date().toISOString(),
+  };
+}
+
+export function publishSpaceEvent(event: SpaceEvent): void {
+  console.log(`📡 Space ${event.spaceId} — ${event.phase}${event.step ? ` (${event.step})` : ""}`);
+  emitter.emit(`space:${event.spaceId}`, event);
+  emitter.emit(`team:${event.teamId}`, event);
+}
+
+export function subscribeToSpace(spaceId: string, listener: (event: SpaceEvent) => void): () => void {
+  emitter.on(`space:${spaceId}`, listener);
+  return () => emitter.off(`space:${spaceId}`, listener);
+}
+
+export function subscribeToTeam(teamId: string, listener: (event: SpaceEvent) => void): () => void {
+  emitter.on(`team:${teamId}`, listener);
+  return () => emitter.off(`team:${teamId}`, listener);
+}
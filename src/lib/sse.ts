@@ -0,0 +1,37 @@
+import type { Request, Response } from "express";
+
+// Proxies drop idle connections — a comment line keeps the stream open
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+export interface EventStream {
+  send(data: unknown): void;
+  onClose(fn: () => void): void;
+}
+
+export function openEventStream(req: Request, res: Response): EventStream {
+  res.status(200).set({
+    "Content-Type": "text/event-stream",
+    // no-transform keeps the compression middleware from buffering events
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+  res.write("retry: 5000\n\n");
+
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_INTERVAL_MS);
+  const closeHandlers: (() => void)[] = [() => clearInterval(heartbeat)];
+
+  req.on("close", () => {
+    for (const fn of closeHandlers) fn();
+  });
+
+  return {
+    send(data: unknown) {
+      res.write(`data: ${JSON.stringify(data)}\n\n`);
+    },
+    onClose(fn: () => void) {
+      closeHandlers.push(fn);
+    },
+  };
+}
@@ -1,6 +1,4 @@
-import { db, bucket } from "./firebase";
-
-const COLLECTION = "spaces";
+import { spacesRepo, blobs } from "./persistence";
 
 export interface Revision {
   id: string;
@@ -10,6 +8,16 @@ export interface Revision {
   createdAt: string;
 }
 
+// Renditions of one normalized photo — `full` is the one generation uses
+export interface ImageDerivatives {
+  full: string;
+  medium: string;
+  thumb: string;
+  // Of `full`, after rotation
+  width: number;
+  height: number;
+}
+
 export interface Space {
   id: string;
   teamId: string;
@@ -19,6 +27,11 @@ export interface Space {
   description: string;
   status: "uploading" | "generating" | "ready" | "failed";
   operationId?: string;
+  // The generation whose outputs the space (and so its tours) currently shows
+  currentOperationId?: string;
+  // Text prompt of the latest generation, as sent to the provider
+  generationPrompt?: string;
+  generationStartedAt?: string;
   worldId?: string;
   thumbnailUrl?: string;
   panoramaUrl?: string;
@@ -30,76 +43,73 @@ export interface Space {
   originalImageUrl?: string;
   floorPlanUrl?: string;
   imageUrls?: string[];
+  // Parallel to imageUrls — absent for photos uploaded before normalization
+  imageDerivatives?: ImageDerivatives[];
   imageCount: number;
   revisions?: Revision[];
+  // Credits refunded for failed generations of this space
+  creditsReleased?: number;
   createdAt: string;
   updatedAt: string;
   errorMessage?: string;
 }
 
 export async function getAllSpaces(teamId?: string): Promise<Space[]> {
-  let query: FirebaseFirestore.Query = db.collection(COLLECTION);
-  if (teamId) {
-    query = query.where("teamId", "==", teamId);
-  }
-  const snapshot = await query.orderBy("createdAt", "desc").get();
-  return snapshot.docs.map((doc) => doc.data() as Space);
+  return spacesRepo.find({
+    where: teamId ? [["teamId", "==", teamId]] : [],
+    orderBy: { field: "createdAt", direction: "desc" },
+  });
+}
+
+export async function getSpacesByStatus(status: Space["status"]): Promise<Space[]> {
+  return spacesRepo.find({ where: [["status", "==", status]] });
+}
+
+// Fallback for generations started before operations were recorded
+export async function getSpaceByOperationId(
+  teamId: string,
+  operationId: string
+): Promise<Space | undefined> {
+  return spacesRepo.findOne({
+    where: [
+      ["teamId", "==", teamId],
+      ["operationId", "==", operationId],
+    ],
+  });
 }
 
 export async function getSpace(id: string): Promise<Space | undefined> {
-  const doc = await db.collection(COLLECTION).doc(id).get();
-  return doc.exists ? (doc.data() as Space) : undefined;
+  return spacesRepo.get(id);
 }
 
 export async function createSpace(space: Space): Promise<Space> {
   console.log(`💾 Firestore: creating space ${space.id} (${space.name})`);
-  await db.collection(COLLECTION).doc(space.id).set(space);
-  return space;
+  return spacesRepo.set(space.id, space);
 }
 
 export async function updateSpace(id: string, updates: Partial<Space>): Promise<Space | null> {
-  const ref = db.collection(COLLECTION).doc(id);
-  const doc = await ref.get();
-  if (!doc.exists) return null;
   // Strip undefined values — Firestore rejects them
   const clean = Object.fromEntries(
     Object.entries(updates).filter(([, v]) => v !== undefined)
-  );
+  ) as Partial<Space>;
   console.log(`💾 Firestore: updating space ${id} — keys: ${Object.keys(clean).join(", ")}`);
-  const merged = { ...doc.data(), ...clean, updatedAt: new Date().toISOString() };
-  await ref.set(merged, { merge: true });
-  return merged as Space;
+  return spacesRepo.update(id, { ...clean, updatedAt: new Date().toISOString() });
 }
 
 export async function deleteSpace(id: string): Promise<boolean> {
-  const ref = db.collection(COLLECTION).doc(id);
-  const doc = await ref.get();
-  if (!doc.exists) return false;
   console.log(`💾 Firestore: deleting space ${id}`);
-  await ref.delete();
-  return true;
+  return spacesRepo.delete(id);
 }
 
 export async function deleteSpaceFiles(spaceId: string): Promise<void> {
   console.log(`🗑️ Cleaning up storage files for space ${spaceId}`);
   const prefixes = [`models/${spaceId}/`, `images/${spaceId}/`];
   for (const prefix of prefixes) {
-    const [files] = await bucket.getFiles({ prefix });
-    console.log(`🗑️ Deleting ${files.length} files with prefix "${prefix}"`);
-    await Promise.all(files.map((f) => f.delete()));
+    const count = await blobs.deletePrefix(prefix);
+    console.log(`🗑️ Deleted ${count} files with prefix "${prefix}"`);
   }
 }
 
 export async function getSpacesByIds(ids: string[]): Promise<Space[]> {
-  if (ids.length === 0) return [];
-  const results: Space[] = [];
-  for (let i = 0; i < ids.length; i += 30) {
-    const chunk = ids.slice(i, i + 30);
-    const snapshot = await db
-      .collection(COLLECTION)
-      .where("__name__", "in", chunk)
-      .get();
-    results.push(...snapshot.docs.map((doc) => doc.data() as Space));
-  }
-  return results;
+  return spacesRepo.getMany(ids);
 }
@@ -0,0 +1,43 @@
+import Stripe from "stripe";
+import { updateTeam, type Team } from "./teams";
+import { getUser } from "./users";
+
+export const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+
+// Point a team's Stripe customer and subscription at a new owner
+export async function transferStripeOwnership(
+  customerId: string | null | undefined,
+  subscriptionId: string | null | undefined,
+  owner: { uid: string; email?: string }
+): Promise<void> {
+  if (customerId) {
+    console.log(`💳 Stripe: moving customer ${customerId} to user ${owner.uid}`);
+    await stripe.customers.update(customerId, {
+      ...(owner.email ? { email: owner.email } : {}),
+      metadata: { uid: owner.uid },
+    });
+  }
+  if (subscriptionId) {
+    console.log(`💳 Stripe: moving subscription ${subscriptionId} to user ${owner.uid}`);
+    await stripe.subscriptions.update(subscriptionId, {
+      metadata: { uid: owner.uid },
+    });
+  }
+}
+
+// Move a team's Stripe records to its current owner. A failure is recorded on
+// the team rather than thrown, since ownership itself has already changed.
+export async function syncStripeOwner(team: Team): Promise<Team> {
+  try {
+    const owner = await getUser(team.ownerId);
+    await transferStripeOwnership(team.stripeCustomerId, team.stripeSubscriptionId, {
+      uid: team.ownerId,
+      email: owner?.email,
+    });
+    if (!team.stripeOwnerSyncPending) return team;
+    return (await updateTeam(team.id, { stripeOwnerSyncPending: false })) ?? team;
+  } catch (err) {
+    console.error(`❌ Failed to move Stripe customer for team ${team.id}:`, err);
+    return (await updateTeam(team.id, { stripeOwnerSyncPending: true })) ?? team;
+  }
+}
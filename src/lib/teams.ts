@@ -1,7 +1,58 @@
-import { db } from "./firebase";
 import { randomBytes } from "crypto";
+import { store, teamsRepo } from "./persistence";
+import type { GenerationSettings } from "./prompts";
 
-const COLLECTION = "teams";
+export type TeamRole = "owner" | "admin" | "editor" | "viewer";
+
+export type Permission =
+  | "spaces:read"
+  | "spaces:write"
+  | "spaces:delete"
+  | "tours:read"
+  | "tours:write"
+  | "tours:share"
+  | "tours:delete"
+  | "generate"
+  | "billing:read"
+  | "billing:manage"
+  | "team:update"
+  | "team:invite"
+  | "team:members"
+  | "team:api-keys"
+  | "team:audit"
+  | "team:delete";
+
+// Permission matrix — each role lists exactly what it may do
+const ROLE_PERMISSIONS: Record<TeamRole, Permission[]> = {
+  owner: [
+    "spaces:read", "spaces:write", "spaces:delete",
+    "tours:read", "tours:write", "tours:share", "tours:delete",
+    "generate", "billing:read", "billing:manage",
+    "team:update", "team:invite", "team:members", "team:api-keys", "team:audit", "team:delete",
+  ],
+  admin: [
+    "spaces:read", "spaces:write", "spaces:delete",
+    "tours:read", "tours:write", "tours:share", "tours:delete",
+    "generate", "billing:read", "billing:manage",
+    "team:update", "team:invite", "team:members", "team:api-keys", "team:audit",
+  ],
+  editor: [
+    "spaces:read", "spaces:write",
+    "tours:read", "tours:write", "tours:share",
+    "generate", "billing:read",
+  ],
+  viewer: ["spaces:read", "tours:read", "tours:share"],
+};
+
+// Role given to members who join without an explicit role, and to
+// legacy members that predate the roles map
+export const DEFAULT_MEMBER_ROLE: TeamRole = "editor";
+
+export interface OwnershipTransfer {
+  toUid: string;
+  requestedBy: string;
+  requestedAt: string;
+}
 
 export interface Team {
   id: string;
@@ -9,6 +60,22 @@ export interface Team {
   type: "personal" | "organization";
   ownerId: string;
   memberIds: string[];
+  roles?: Record<string, TeamRole>;
+  pendingTransfer?: OwnershipTransfer | null;
+  // Billing — absent on legacy teams that predate credits
+  credits?: number;
+  creditsUsed?: number;
+  // Held by generations that have not finished yet
+  creditsReserved?: number;
+  stripeSubscriptionId?: string | null;
+  stripeCustomerId?: string | null;
+  // Stripe still names the previous owner — retried on the next renewal webhook
+  stripeOwnerSyncPending?: boolean;
+  subscriptionStatus?: "active" | "canceled";
+  subscriptionQty?: number;
+  currentPeriodEnd?: string;
+  cancelAtPeriodEnd?: boolean;
+  generationSettings?: GenerationSettings;
   inviteCode: string;
   inviteEnabled: boolean;
   createdAt: string;
@@ -16,80 +83,88 @@ export interface Team {
 }
 
 export async function getTeam(id: string): Promise<Team | undefined> {
-  const doc = await db.collection(COLLECTION).doc(id).get();
-  return doc.exists ? (doc.data() as Team) : undefined;
+  return teamsRepo.get(id);
 }
 
 export async function getTeamsByUser(userId: string): Promise<Team[]> {
-  const snapshot = await db
-    .collection(COLLECTION)
-    .where("memberIds", "array-contains", userId)
-    .get();
-  return snapshot.docs.map((doc) => doc.data() as Team);
+  return teamsRepo.find({ where: [["memberIds", "array-contains", userId]] });
 }
 
 export async function createTeam(team: Team): Promise<Team> {
   console.log(`💾 Firestore: creating team ${team.id} (${team.name})`);
-  await db.collection(COLLECTION).doc(team.id).set(team);
-  return team;
+  return teamsRepo.set(team.id, team);
 }
 
 export async function updateTeam(
   id: string,
   updates: Partial<Team>
 ): Promise<Team | null> {
-  const ref = db.collection(COLLECTION).doc(id);
-  const doc = await ref.get();
-  if (!doc.exists) return null;
   console.log(`💾 Firestore: updating team ${id} — keys: ${Object.keys(updates).join(", ")}`);
-  const merged = {
-    ...doc.data(),
-    ...updates,
-    updatedAt: new Date().toISOString(),
-  };
-  await ref.set(merged, { merge: true });
-  return merged as Team;
+  return teamsRepo.update(id, { ...updates, updatedAt: new Date().toISOString() });
 }
 
 export async function deleteTeam(id: string): Promise<boolean> {
-  const ref = db.collection(COLLECTION).doc(id);
-  const doc = await ref.get();
-  if (!doc.exists) return false;
   console.log(`💾 Firestore: deleting team ${id}`);
-  await ref.delete();
-  return true;
+  return teamsRepo.delete(id);
 }
 
 export async function getTeamByInviteCode(
   code: string
 ): Promise<Team | undefined> {
-  const snapshot = await db
-    .collection(COLLECTION)
-    .where("inviteCode", "==", code)
-    .where("inviteEnabled", "==", true)
-    .limit(1)
-    .get();
-  return snapshot.empty ? undefined : (snapshot.docs[0].data() as Team);
+  return teamsRepo.findOne({
+    where: [
+      ["inviteCode", "==", code],
+      ["inviteEnabled", "==", true],
+    ],
+  });
 }
 
 export function generateInviteCode(): string {
   return randomBytes(8).toString("base64url").slice(0, 12);
 }
 
+export function getMemberRole(team: Team, userId: string): TeamRole | null {
+  if (!team.memberIds.includes(userId)) return null;
+  if (team.ownerId === userId) return "owner";
+  return team.roles?.[userId] ?? DEFAULT_MEMBER_ROLE;
+}
+
+export function hasPermission(role: TeamRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
 export async function addMemberToTeam(
   teamId: string,
-  userId: string
+  userId: string,
+  role: TeamRole = DEFAULT_MEMBER_ROLE
 ): Promise<Team | null> {
-  console.log(`💾 Firestore: adding user ${userId} to team ${teamId}`);
-  return db.runTransaction(async (txn) => {
-    const ref = db.collection(COLLECTION).doc(teamId);
-    const doc = await txn.get(ref);
-    if (!doc.exists) return null;
-    const team = doc.data() as Team;
+  console.log(`💾 Firestore: adding user ${userId} to team ${teamId} as ${role}`);
+  return store.runTransaction(async (tx) => {
+    const team = await tx.get(teamsRepo, teamId);
+    if (!team) return null;
     if (team.memberIds.includes(userId)) return team;
     const memberIds = [...team.memberIds, userId];
-    const updates = { memberIds, updatedAt: new Date().toISOString() };
-    txn.update(ref, updates);
+    const roles = { ...team.roles, [userId]: role };
+    const updates = { memberIds, roles, updatedAt: new Date().toISOString() };
+    tx.update(teamsRepo, teamId, updates);
+    return { ...team, ...updates };
+  });
+}
+
+export async function setMemberRole(
+  teamId: string,
+  userId: string,
+  role: TeamRole
+): Promise<Team | null> {
+  console.log(`💾 Firestore: setting role of user ${userId} in team ${teamId} to ${role}`);
+  return store.runTransaction(async (tx) => {
+    const team = await tx.get(teamsRepo, teamId);
+    if (!team) return null;
+    if (!team.memberIds.includes(userId)) return null;
+    if (team.ownerId === userId) return null;
+    const roles = { ...team.roles, [userId]: role };
+    const updates = { roles, updatedAt: new Date().toISOString() };
+    tx.update(teamsRepo, teamId, updates);
     return { ...team, ...updates };
   });
 }
@@ -99,16 +174,44 @@ export async function removeMemberFromTeam(
   userId: string
 ): Promise<Team | null> {
   console.log(`💾 Firestore: removing user ${userId} from team ${teamId}`);
-  return db.runTransaction(async (txn) => {
-    const ref = db.collection(COLLECTION).doc(teamId);
-    const doc = await txn.get(ref);
-    if (!doc.exists) return null;
-    const team = doc.data() as Team;
+  return store.runTransaction(async (tx) => {
+    const team = await tx.get(teamsRepo, teamId);
+    if (!team) return null;
     if (team.ownerId === userId) return null;
     if (team.type === "personal") return null;
     const memberIds = team.memberIds.filter((id) => id !== userId);
-    const updates = { memberIds, updatedAt: new Date().toISOString() };
-    txn.update(ref, updates);
+    const roles = { ...team.roles };
+    delete roles[userId];
+    const updates = { memberIds, roles, updatedAt: new Date().toISOString() };
+    tx.update(teamsRepo, teamId, updates);
+    return { ...team, ...updates };
+  });
+}
+
+export async function transferTeamOwnership(
+  teamId: string,
+  toUid: string
+): Promise<Team | null> {
+  console.log(`💾 Firestore: transferring team ${teamId} to user ${toUid}`);
+  return store.runTransaction(async (tx) => {
+    const team = await tx.get(teamsRepo, teamId);
+    if (!team) return null;
+    if (team.type === "personal") return null;
+    if (team.pendingTransfer?.toUid !== toUid) return null;
+    if (!team.memberIds.includes(toUid)) return null;
+    // Previous owner stays on as an admin
+    const roles: Record<string, TeamRole> = {
+      ...team.roles,
+      [team.ownerId]: "admin",
+      [toUid]: "owner",
+    };
+    const updates = {
+      ownerId: toUid,
+      roles,
+      pendingTransfer: null,
+      updatedAt: new Date().toISOString(),
+    };
+    tx.update(teamsRepo, teamId, updates);
     return { ...team, ...updates };
   });
 }
@@ -1,6 +1,4 @@
-import { db } from "./firebase";
-
-const COLLECTION = "tours";
+import { store, toursRepo } from "./persistence";
 
 export interface TourRoom {
   spaceId: string;
@@ -23,78 +21,56 @@ export interface Tour {
 }
 
 export async function getAllTours(teamId?: string): Promise<Tour[]> {
-  let query: FirebaseFirestore.Query = db.collection(COLLECTION);
-  if (teamId) {
-    query = query.where("teamId", "==", teamId);
-  }
-  const snapshot = await query.orderBy("createdAt", "desc").get();
-  return snapshot.docs.map((doc) => doc.data() as Tour);
+  return toursRepo.find({
+    where: teamId ? [["teamId", "==", teamId]] : [],
+    orderBy: { field: "createdAt", direction: "desc" },
+  });
 }
 
 export async function getTour(id: string): Promise<Tour | undefined> {
-  const doc = await db.collection(COLLECTION).doc(id).get();
-  return doc.exists ? (doc.data() as Tour) : undefined;
+  return toursRepo.get(id);
 }
 
 export async function createTour(tour: Tour): Promise<Tour> {
   console.log(`💾 Firestore: creating tour ${tour.id} (${tour.name})`);
-  await db.collection(COLLECTION).doc(tour.id).set(tour);
-  return tour;
+  return toursRepo.set(tour.id, tour);
 }
 
 export async function updateTour(id: string, updates: Partial<Tour>): Promise<Tour | null> {
-  const ref = db.collection(COLLECTION).doc(id);
-  const doc = await ref.get();
-  if (!doc.exists) return null;
   console.log(`💾 Firestore: updating tour ${id} — keys: ${Object.keys(updates).join(", ")}`);
-  const merged = { ...doc.data(), ...updates, updatedAt: new Date().toISOString() };
-  await ref.set(merged, { merge: true });
-  return merged as Tour;
+  return toursRepo.update(id, { ...updates, updatedAt: new Date().toISOString() });
 }
 
 export async function deleteTour(id: string): Promise<boolean> {
-  const ref = db.collection(COLLECTION).doc(id);
-  const doc = await ref.get();
-  if (!doc.exists) return false;
   console.log(`💾 Firestore: deleting tour ${id}`);
-  await ref.delete();
-  return true;
+  return toursRepo.delete(id);
 }
 
 export async function addRoomToTour(tourId: string, room: TourRoom): Promise<Tour | null> {
   console.log(`💾 Firestore: adding room to tour ${tourId} (space ${room.spaceId})`);
-  return db.runTransaction(async (txn) => {
-    const ref = db.collection(COLLECTION).doc(tourId);
-    const doc = await txn.get(ref);
-    if (!doc.exists) return null;
-    const tour = doc.data() as Tour;
+  return store.runTransaction(async (tx) => {
+    const tour = await tx.get(toursRepo, tourId);
+    if (!tour) return null;
     const rooms = [...tour.rooms.filter((r) => r.spaceId !== room.spaceId), room];
     rooms.sort((a, b) => a.order - b.order);
     const updates = { rooms, updatedAt: new Date().toISOString() };
-    txn.update(ref, updates);
+    tx.update(toursRepo, tourId, updates);
     return { ...tour, ...updates };
   });
 }
 
 export async function removeRoomFromTour(tourId: string, spaceId: string): Promise<Tour | null> {
   console.log(`💾 Firestore: removing room from tour ${tourId} (space ${spaceId})`);
-  return db.runTransaction(async (txn) => {
-    const ref = db.collection(COLLECTION).doc(tourId);
-    const doc = await txn.get(ref);
-    if (!doc.exists) return null;
-    const tour = doc.data() as Tour;
+  return store.runTransaction(async (tx) => {
+    const tour = await tx.get(toursRepo, tourId);
+    if (!tour) return null;
     const rooms = tour.rooms.filter((r) => r.spaceId !== spaceId);
     const updates = { rooms, updatedAt: new Date().toISOString() };
-    txn.update(ref, updates);
+    tx.update(toursRepo, tourId, updates);
     return { ...tour, ...updates };
   });
 }
 
 export async function getTourByToken(token: string): Promise<Tour | undefined> {
-  const snapshot = await db
-    .collection(COLLECTION)
-    .where("shareToken", "==", token)
-    .limit(1)
-    .get();
-  return snapshot.empty ? undefined : (snapshot.docs[0].data() as Tour);
+  return toursRepo.findOne({ where: [["shareToken", "==", token]] });
 }
@@ -0,0 +1,53 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import sharp from "sharp";
+import { blobs } from "./persistence";
+import { createSpace, getSpace, type Space } from "./storage";
+import { createUploadSession, finalizeUploadSession, getUploadSession } from "./uploads";
+
+async function setup(spaceId: string) {
+  const now = new Date().toISOString();
+  const space: Space = {
+    id: spaceId,
+    teamId: "team-uploads",
+    createdBy: "member",
+    name: "Test space",
+    address: "",
+    description: "",
+    status: "uploading",
+    imageCount: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await createSpace(space);
+
+  const photo = await sharp({ create: { width: 32, height: 24, channels: 3, background: "#808080" } }).jpeg().toBuffer();
+  const { session } = await createUploadSession(space, "member", {
+    files: [{ name: "room.jpg", contentType: "image/jpeg", size: photo.length }],
+  });
+  await blobs.save(session.files[0].path, photo, { contentType: "image/jpeg" });
+  return session;
+}
+
+describe("finalizeUploadSession", () => {
+  it("lets only one of two concurrent requests finalize a session", async () => {
+    const session = await setup("space-concurrent");
+    const results = await Promise.all([finalizeUploadSession(session.id), finalizeUploadSession(session.id)]);
+
+    assert.equal(results.filter((result) => result === null).length, 1);
+    assert.equal((await getUploadSession(session.id))?.status, "finalized");
+    assert.equal((await getSpace("space-concurrent"))?.imageCount, 1);
+    await blobs.deletePrefix("images/space-concurrent/");
+  });
+
+  it("leaves an incomplete session open for the missing files", async () => {
+    const session = await setup("space-incomplete");
+    await blobs.delete(session.files[0].path);
+
+    const result = await finalizeUploadSession(session.id);
+    assert.equal(result?.space, null);
+    const stored = await getUploadSession(session.id);
+    assert.equal(stored?.status, "open");
+    assert.equal(stored?.finalizingAt, undefined);
+  });
+});
@@ -0,0 +1,235 @@
+import { randomUUID } from "crypto";
+import type { Readable } from "stream";
+import { blobs, store } from "./persistence";
+import { updateSpace, type ImageDerivatives, type Space } from "./storage";
+import { normalizeFloorPlan, normalizePhoto } from "./photos";
+
+export const ALLOWED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/heic"] as const;
+export const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+export const MAX_IMAGES = 15;
+
+// Long enough for a slow connection to push 15 × 20MB, short enough that a
+// leaked URL is of little use
+const UPLOAD_URL_TTL_MS = 30 * 60 * 1000;
+// Long enough to normalize 15 photos — an older claim was abandoned by a crashed request
+const FINALIZE_CLAIM_MS = 10 * 60 * 1000;
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/heic": "heic",
+};
+
+export interface UploadFile {
+  name: string;
+  contentType: string;
+  // Declared by the client — the signed URL only accepts up to this many bytes
+  size: number;
+  // Where the client uploads the file as-is. Kept private and removed once
+  // the normalized copies are stored.
+  path: string;
+  status: "pending" | "uploaded" | "invalid";
+  error?: string;
+}
+
+// Photos (and optionally a floor plan) a client uploads straight to storage.
+// Nothing on the space changes until the session is finalized.
+export interface UploadSession {
+  id: string;
+  spaceId: string;
+  teamId: string;
+  createdBy: string;
+  // "finalizing" while one request normalizes the files
+  status: "open" | "finalizing" | "finalized";
+  files: UploadFile[];
+  floorplan?: UploadFile;
+  createdAt: string;
+  expiresAt: string;
+  finalizingAt?: string;
+  finalizedAt?: string;
+}
+
+export interface UploadTarget {
+  name: string;
+  url: string;
+  method: "PUT";
+  headers: Record<string, string>;
+}
+
+export const uploadSessionsRepo = store.collection<UploadSession>("uploadSessions");
+
+type FileRequest = Pick<UploadFile, "name" | "contentType" | "size">;
+
+// Each session uploads under its own prefix, so photos an earlier generation
+// was started from stay in place for retries. The normalized copies are
+// stored next to the upload as `${stem}-full.jpg` and so on.
+function uploadFile(spaceId: string, sessionId: string, stem: string, file: FileRequest): UploadFile {
+  const path = `images/${spaceId}/${sessionId}/${stem}.${EXTENSIONS[file.contentType] || "jpg"}`;
+  return { name: file.name, contentType: file.contentType, size: file.size, path, status: "pending" };
+}
+
+async function signedTarget(file: UploadFile): Promise<UploadTarget> {
+  const signed = await blobs.signedUploadUrl(file.path, {
+    contentType: file.contentType,
+    maxBytes: file.size,
+    expiresInMs: UPLOAD_URL_TTL_MS,
+  });
+  return { name: file.name, url: signed.url, method: signed.method, headers: signed.headers };
+}
+
+export async function createUploadSession(
+  space: Space,
+  uid: string,
+  request: { files: FileRequest[]; floorplan?: FileRequest }
+): Promise<{ session: UploadSession; uploads: UploadTarget[]; floorplan: UploadTarget | null }> {
+  const id = randomUUID();
+  const now = Date.now();
+  const session: UploadSession = {
+    id,
+    spaceId: space.id,
+    teamId: space.teamId,
+    createdBy: uid,
+    status: "open",
+    files: request.files.map((file, i) => uploadFile(space.id, id, String(i), file)),
+    ...(request.floorplan ? { floorplan: uploadFile(space.id, id, "floorplan", request.floorplan) } : {}),
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + UPLOAD_URL_TTL_MS).toISOString(),
+  };
+
+  const uploads = await Promise.all(session.files.map(signedTarget));
+  const floorplan = session.floorplan ? await signedTarget(session.floorplan) : null;
+  await uploadSessionsRepo.set(id, session);
+
+  console.log(`💾 Firestore: upload session ${id} for space ${space.id} — ${session.files.length} file(s)`);
+  return { session, uploads, floorplan };
+}
+
+export async function getUploadSession(id: string): Promise<UploadSession | undefined> {
+  return uploadSessionsRepo.get(id);
+}
+
+// Past this its upload URLs no longer work, so missing files can never arrive
+export function isUploadSessionExpired(session: UploadSession): boolean {
+  return new Date(session.expiresAt).getTime() <= Date.now();
+}
+
+// Mark the session as finalizing, so a concurrent finalize cannot normalize
+// the same files. Null when it is finalized or another request holds it.
+async function claimUploadSession(id: string): Promise<UploadSession | null> {
+  return store.runTransaction(async (tx) => {
+    const session = await tx.get(uploadSessionsRepo, id);
+    if (!session || session.status === "finalized") return null;
+    const claimedAt = session.finalizingAt ? new Date(session.finalizingAt).getTime() : 0;
+    if (session.status === "finalizing" && Date.now() - claimedAt < FINALIZE_CLAIM_MS) return null;
+    const updates = { status: "finalizing" as const, finalizingAt: new Date().toISOString() };
+    tx.update(uploadSessionsRepo, id, updates);
+    return { ...session, ...updates };
+  });
+}
+
+// Compare what landed in storage with what the session allowed
+async function verifyFile(file: UploadFile): Promise<UploadFile> {
+  const stored = await blobs.stat(file.path);
+  const rest = { ...file };
+  delete rest.error;
+  if (!stored) return { ...rest, status: "pending" };
+  if (stored.size !== file.size) {
+    return { ...rest, status: "invalid", error: `Expected ${file.size} bytes, got ${stored.size}` };
+  }
+  // Local storage does not record content types — its upload handler checks them instead
+  if (stored.contentType && stored.contentType !== file.contentType) {
+    return { ...rest, status: "invalid", error: `Expected ${file.contentType}, got ${stored.contentType}` };
+  }
+  return { ...rest, status: "uploaded" };
+}
+
+function stemPath(file: UploadFile): string {
+  return file.path.replace(/\.[^./]+$/, "");
+}
+
+// Run `normalize` on an uploaded object; a file sharp cannot read is marked invalid
+async function normalizeUpload<T>(
+  file: UploadFile,
+  normalize: (source: Readable, basePath: string) => Promise<T>
+): Promise<{ file: UploadFile; result?: T }> {
+  try {
+    return { file, result: await normalize(blobs.readStream(file.path), stemPath(file)) };
+  } catch (err) {
+    const error = err instanceof Error ? err.message : "Unknown error";
+    return { file: { ...file, status: "invalid", error } };
+  }
+}
+
+// Check every object of the session. Once all are in place they are normalized
+// and the space points at the normalized copies; otherwise the session stays
+// open so missing files can be re-sent. Null when another request is
+// finalizing the session or already has.
+export async function finalizeUploadSession(
+  id: string
+): Promise<{ session: UploadSession; space: Space | null } | null> {
+  const session = await claimUploadSession(id);
+  if (!session) return null;
+  try {
+    return await verifyAndAttach(session);
+  } catch (err) {
+    // Let the client try again rather than wait out the claim
+    await uploadSessionsRepo.update(id, { status: "open" });
+    throw err;
+  }
+}
+
+async function verifyAndAttach(session: UploadSession): Promise<{ session: UploadSession; space: Space | null }> {
+  let files = await Promise.all(session.files.map(verifyFile));
+  let floorplan = session.floorplan ? await verifyFile(session.floorplan) : undefined;
+  const allUploaded = () => [...files, ...(floorplan ? [floorplan] : [])].every((f) => f.status === "uploaded");
+
+  const imageDerivatives: ImageDerivatives[] = [];
+  let floorPlanUrl: string | undefined;
+  if (allUploaded()) {
+    // One photo at a time — a decoded photo takes many times the memory of its file
+    const normalized: UploadFile[] = [];
+    for (const file of files) {
+      const outcome = await normalizeUpload(file, normalizePhoto);
+      normalized.push(outcome.file);
+      if (outcome.result) imageDerivatives.push(outcome.result);
+    }
+    files = normalized;
+    if (floorplan) {
+      const outcome = await normalizeUpload(floorplan, normalizeFloorPlan);
+      floorplan = outcome.file;
+      floorPlanUrl = outcome.result;
+    }
+  }
+  const complete = allUploaded();
+
+  const next: UploadSession = {
+    ...session,
+    files,
+    ...(floorplan ? { floorplan } : {}),
+    ...(complete ? { status: "finalized" as const, finalizedAt: new Date().toISOString() } : { status: "open" as const }),
+  };
+  delete next.finalizingAt;
+  await uploadSessionsRepo.set(session.id, next);
+  if (!complete) return { session: next, space: null };
+
+  const imageUrls = imageDerivatives.map((d) => d.full);
+  const space = await updateSpace(session.spaceId, {
+    originalImageUrl: imageUrls[0],
+    imageUrls,
+    imageDerivatives,
+    imageCount: imageUrls.length,
+    floorPlanUrl,
+  });
+
+  // The uploads still carry their EXIF data, GPS position included
+  await Promise.all([...files, ...(floorplan ? [floorplan] : [])].map((f) => blobs.delete(f.path)));
+  console.log(`💾 Firestore: upload session ${session.id} finalized — ${imageUrls.length} image(s) on space ${session.spaceId}`);
+  return { session: next, space };
+}
+
+export async function deleteUploadSessionsBySpace(spaceId: string): Promise<number> {
+  const sessions = await uploadSessionsRepo.find({ where: [["spaceId", "==", spaceId]] });
+  await Promise.all(sessions.map((s) => uploadSessionsRepo.delete(s.id)));
+  return sessions.length;
+}
@@ -0,0 +1,39 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { getUser, removeTeamFromUser } from "./users";
+import { usersRepo } from "./persistence";
+
+async function createUser(uid: string, teamIds: string[], activeTeamId: string) {
+  const now = new Date().toISOString();
+  await usersRepo.set(uid, {
+    uid,
+    email: `${uid}@example.com`,
+    displayName: uid,
+    onboardingComplete: true,
+    activeTeamId,
+    teamIds,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+describe("removeTeamFromUser", () => {
+  it("keeps the active team when another team is removed", async () => {
+    await createUser("user-a", ["team-1", "team-2"], "team-2");
+    await removeTeamFromUser("user-a", "team-1");
+    const user = await getUser("user-a");
+    assert.deepEqual(user?.teamIds, ["team-2"]);
+    assert.equal(user?.activeTeamId, "team-2");
+  });
+
+  it("falls back to another team when the active one is removed", async () => {
+    await createUser("user-b", ["team-1", "team-2"], "team-2");
+    await removeTeamFromUser("user-b", "team-2");
+    assert.equal((await getUser("user-b"))?.activeTeamId, "team-1");
+  });
+
+  it("does nothing for a user without a doc", async () => {
+    await removeTeamFromUser("user-missing", "team-1");
+    assert.equal(await getUser("user-missing"), undefined);
+  });
+});
@@ -0,0 +1,61 @@
+import { store, usersRepo } from "./persistence";
+
+export interface User {
+  uid: string;
+  email: string;
+  displayName: string;
+  phone?: string;
+  companyName?: string;
+  businessType?: "solo_agent" | "agency" | "property_management" | "other";
+  onboardingComplete: boolean;
+  activeTeamId: string | null;
+  teamIds: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export async function getUser(uid: string): Promise<User | undefined> {
+  return usersRepo.get(uid);
+}
+
+export async function getUsersByIds(uids: string[]): Promise<User[]> {
+  return usersRepo.getMany(uids);
+}
+
+export async function getUserByEmail(email: string): Promise<User | undefined> {
+  return usersRepo.findOne({ where: [["email", "==", email]] });
+}
+
+export async function mergeUser(uid: string, fields: Partial<User>): Promise<void> {
+  console.log(`💾 Firestore: merging user ${uid} — keys: ${Object.keys(fields).join(", ")}`);
+  await usersRepo.merge(uid, fields);
+}
+
+export async function addTeamToUser(uid: string, teamId: string): Promise<void> {
+  console.log(`💾 Firestore: adding team ${teamId} to user ${uid}`);
+  await store.runTransaction(async (tx) => {
+    const user = await tx.get(usersRepo, uid);
+    if (!user) return;
+    const teamIds = user.teamIds || [];
+    if (teamIds.includes(teamId)) return;
+    tx.update(usersRepo, uid, { teamIds: [...teamIds, teamId] });
+  });
+}
+
+// Pull a team from a user's doc. If it was their active team, fall back to
+// another of their teams. A user without a doc has nothing to pull.
+export async function removeTeamFromUser(uid: string, teamId: string): Promise<void> {
+  console.log(`💾 Firestore: removing team ${teamId} from user ${uid}`);
+  await store.runTransaction(async (tx) => {
+    const user = await tx.get(usersRepo, uid);
+    if (!user) return;
+    const teamIds = (user.teamIds || []).filter((tid) => tid !== teamId);
+    const activeTeamId = user.activeTeamId === teamId ? teamIds[0] || null : user.activeTeamId;
+    tx.update(usersRepo, uid, { teamIds, activeTeamId });
+  });
+}
+
+export async function deleteUser(uid: string): Promise<void> {
+  console.log(`💾 Firestore: deleting user ${uid}`);
+  await usersRepo.delete(uid);
+}
@@ -1,6 +1,7 @@
 const BASE_URL =
   process.env.WORLDLABS_BASE_URL || "https://api.worldlabs.ai/marble/v1";
 const API_KEY = process.env.WORLDLABS_API_KEY || "";
+const DEFAULT_MODEL = "Marble 0.1-plus";
 
 interface WorldAssets {
   thumbnail_url?: string;
@@ -62,12 +63,14 @@ async function apiFetch(path: string, options: RequestInit = {}): Promise<any> {
 export async function generateWorldFromImageBase64(
   imageBase64: string,
   textPrompt?: string,
-  draft: boolean = false
+  model: string = DEFAULT_MODEL,
+  isPano: boolean = false
 ): Promise<string> {
   const worldPrompt: Record<string, unknown> = {
     type: "image",
     text_prompt: textPrompt || null,
     disable_recaption: false,
+    is_pano: isPano,
     image_prompt: {
       source: "data_base64",
       data_base64: imageBase64,
@@ -79,7 +82,35 @@ export async function generateWorldFromImageBase64(
     method: "POST",
     body: JSON.stringify({
       world_prompt: worldPrompt,
-      model: draft ? "Marble 0.1-mini" : "Marble 0.1-plus",
+      model,
+    }),
+  });
+
+  return operation.operation_id;
+}
+
+// Multi-view prompt — each photo is fetched by WorldLabs from its public URL
+export async function generateWorldFromImageUrls(
+  images: { url: string; azimuth: number }[],
+  textPrompt?: string,
+  model: string = DEFAULT_MODEL
+): Promise<string> {
+  const worldPrompt = {
+    type: "multi-image",
+    text_prompt: textPrompt || null,
+    disable_recaption: false,
+    multi_image_prompt: images.map((image) => ({
+      azimuth: image.azimuth,
+      content: { source: "uri", uri: image.url },
+    })),
+  };
+
+  console.log(`🎨 WorldLabs API call — generateFromImages (${images.length} views)`);
+  const operation = await apiFetch("worlds:generate", {
+    method: "POST",
+    body: JSON.stringify({
+      world_prompt: worldPrompt,
+      model,
     }),
   });
 
@@ -88,7 +119,7 @@ export async function generateWorldFromImageBase64(
 
 export async function generateWorldFromText(
   textPrompt: string,
-  draft: boolean = false
+  model: string = DEFAULT_MODEL
 ): Promise<string> {
   const worldPrompt = {
     type: "text",
@@ -101,7 +132,7 @@ export async function generateWorldFromText(
     method: "POST",
     body: JSON.stringify({
       world_prompt: worldPrompt,
-      model: draft ? "Marble 0.1-mini" : "Marble 0.1-plus",
+      model,
     }),
   });
 
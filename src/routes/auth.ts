@@ -1,14 +1,81 @@
 import { Router, Request, Response } from "express";
 import { getAuth } from "firebase-admin/auth";
 import "../lib/firebase";
-import { db } from "../lib/firebase";
 import { verifyAuthToken } from "../lib/auth";
-import { generateInviteCode } from "../lib/teams";
+import { generateInviteCode, getTeamsByUser, type Team } from "../lib/teams";
+import { getUser, mergeUser, deleteUser, type User } from "../lib/users";
+import { blobs, store, teamsRepo, usersRepo } from "../lib/persistence";
+import { deleteApiKeysByTeam } from "../lib/apiKeys";
+import { auditRepo } from "../lib/audit";
 import { sessionSchema, onboardingSchema, updateProfileSchema } from "../lib/schemas";
+import {
+  createSession,
+  describeDevice,
+  getActiveSessions,
+  getSession,
+  revokeAllSessions,
+  revokeSession,
+  sessionIdFromCookie,
+  sessionsRepo,
+} from "../lib/sessions";
+import { getAllSpaces, deleteSpace, deleteSpaceFiles } from "../lib/storage";
+import { getAllTours, deleteTour } from "../lib/tours";
+import { deleteOperationsBySpace } from "../lib/operations";
+import { deleteUploadSessionsBySpace } from "../lib/uploads";
+import { deleteReservationsByTeam } from "../lib/credits";
+import { buildLedgerEntry, ledgerRepo } from "../lib/ledger";
+import { stripe } from "../lib/stripe";
+import {
+  EXPORT_TTL_MS,
+  buildExport,
+  createExport,
+  deleteExpiredExports,
+  exportPath,
+  exportsRepo,
+  failStalledExport,
+  getExport,
+  getExportDownloadUrl,
+  getLatestExport,
+  type DataExport,
+} from "../lib/exports";
 import { randomUUID } from "crypto";
 
 const router = Router();
 
+// Attach a short-lived download link to finished exports
+async function describeExport(stored: DataExport) {
+  const dataExport = await failStalledExport(stored);
+  return {
+    ...dataExport,
+    downloadUrl: dataExport.status === "ready" ? await getExportDownloadUrl(dataExport) : null,
+  };
+}
+
+// Delete everything a team owns: spaces with their storage files, tours
+// (which kills their share links), API keys, the audit log and credit history
+async function purgeTeamContent(teamId: string): Promise<void> {
+  const spaces = await getAllSpaces(teamId);
+  for (const space of spaces) {
+    await deleteSpaceFiles(space.id);
+    await deleteOperationsBySpace(space.id);
+    await deleteUploadSessionsBySpace(space.id);
+    await deleteSpace(space.id);
+  }
+
+  const tours = await getAllTours(teamId);
+  for (const tour of tours) {
+    await deleteTour(tour.id);
+  }
+
+  const apiKeyCount = await deleteApiKeysByTeam(teamId);
+  await deleteReservationsByTeam(teamId);
+
+  await auditRepo(teamId).deleteAll();
+  await ledgerRepo(teamId).deleteAll();
+
+  console.log(`👤 Purged team ${teamId} — ${spaces.length} spaces, ${tours.length} tours, ${apiKeyCount} API keys`);
+}
+
 // POST /api/auth/session — Create session cookie
 router.post("/session", async (req: Request, res: Response) => {
   try {
@@ -25,6 +92,19 @@ router.post("/session", async (req: Request, res: Response) => {
     const expiresIn = 60 * 60 * 24 * 5 * 1000;
     const sessionCookie = await getAuth().createSessionCookie(token, { expiresIn });
 
+    const userAgent = req.headers["user-agent"] || "";
+    const now = new Date();
+    await createSession({
+      id: sessionIdFromCookie(sessionCookie),
+      uid: decoded.uid,
+      device: describeDevice(userAgent),
+      userAgent: userAgent.slice(0, 500),
+      ip: req.ip || req.socket.remoteAddress || "unknown",
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + expiresIn).toISOString(),
+      revokedAt: null,
+    });
+
     res.cookie("session", sessionCookie, {
       maxAge: expiresIn,
       httpOnly: true,
@@ -41,13 +121,99 @@ router.post("/session", async (req: Request, res: Response) => {
   }
 });
 
-// DELETE /api/auth/session — Clear session cookie
-router.delete("/session", (_req: Request, res: Response) => {
+// DELETE /api/auth/session — Revoke and clear the current session cookie
+router.delete("/session", async (req: Request, res: Response) => {
+  const session = req.cookies?.session as string | undefined;
+  if (session) {
+    try {
+      const decoded = await getAuth().verifySessionCookie(session);
+      await revokeSession(decoded.uid, sessionIdFromCookie(session));
+    } catch {
+      // Expired or invalid cookie — nothing left to revoke
+    }
+  }
+
   res.clearCookie("session", { path: "/" });
   console.log("🔐 Session cleared");
   res.json({ status: "success" });
 });
 
+// GET /api/auth/sessions — List active sessions for the current user
+router.get("/sessions", async (req: Request, res: Response) => {
+  const decoded = await verifyAuthToken(req);
+  if (!decoded) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  try {
+    const currentId = req.cookies?.session ? sessionIdFromCookie(req.cookies.session) : null;
+    const sessions = await getActiveSessions(decoded.uid);
+
+    console.log(`🔐 Listed ${sessions.length} active sessions for user ${decoded.uid}`);
+    res.json({
+      sessions: sessions.map((s) => ({ ...s, current: s.id === currentId })),
+    });
+  } catch (err) {
+    console.error("❌ Failed to list sessions:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// DELETE /api/auth/sessions/:id — Revoke a single session
+router.delete("/sessions/:id", async (req: Request, res: Response) => {
+  const decoded = await verifyAuthToken(req);
+  if (!decoded) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  try {
+    const id = req.params.id as string;
+    const session = await getSession(decoded.uid, id);
+    if (!session || session.revokedAt) {
+      console.log(`⚠️ DELETE /auth/sessions/${id.slice(0, 8)}… — not found or already revoked`);
+      res.status(404).json({ error: "Session not found" });
+      return;
+    }
+
+    await revokeSession(decoded.uid, id);
+
+    const isCurrent = req.cookies?.session && sessionIdFromCookie(req.cookies.session) === id;
+    if (isCurrent) {
+      res.clearCookie("session", { path: "/" });
+    }
+
+    console.log(`🔐 Session ${id.slice(0, 8)}… revoked for user ${decoded.uid}`);
+    res.json({ success: true });
+  } catch (err) {
+    console.error("❌ Failed to revoke session:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// DELETE /api/auth/sessions — Sign out everywhere
+router.delete("/sessions", async (req: Request, res: Response) => {
+  const decoded = await verifyAuthToken(req);
+  if (!decoded) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  try {
+    // Invalidates every session cookie and refresh token issued so far
+    await getAuth().revokeRefreshTokens(decoded.uid);
+    const revoked = await revokeAllSessions(decoded.uid);
+
+    res.clearCookie("session", { path: "/" });
+    console.log(`🔐 Signed out everywhere — user ${decoded.uid}, ${revoked} sessions revoked`);
+    res.json({ success: true, revoked });
+  } catch (err) {
+    console.error("❌ Failed to revoke all sessions:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
 // GET /api/auth/me — Get current user profile
 router.get("/me", async (req: Request, res: Response) => {
   const decoded = await verifyAuthToken(req);
@@ -57,8 +223,8 @@ router.get("/me", async (req: Request, res: Response) => {
   }
 
   console.log(`🔐 GET /auth/me — user ${decoded.uid}`);
-  const doc = await db.collection("users").doc(decoded.uid).get();
-  if (!doc.exists) {
+  const user = await getUser(decoded.uid);
+  if (!user) {
     console.log(`👤 User ${decoded.uid} has no profile yet (needs onboarding)`);
     res.json({
       uid: decoded.uid,
@@ -68,11 +234,10 @@ router.get("/me", async (req: Request, res: Response) => {
     return;
   }
 
-  const data = doc.data();
   res.json({
-    ...data,
-    activeTeamId: data?.activeTeamId || null,
-    teamIds: data?.teamIds || [],
+    ...user,
+    activeTeamId: user.activeTeamId || null,
+    teamIds: user.teamIds || [],
   });
 });
 
@@ -95,25 +260,36 @@ router.post("/onboarding", async (req: Request, res: Response) => {
   const now = new Date().toISOString();
   const displayName = decoded.name || decoded.email || "My";
 
-  const batch = db.batch();
-
-  batch.set(db.collection("teams").doc(teamId), {
+  const team: Team = {
     id: teamId,
     name: `${displayName}'s Team`,
     type: "personal",
     ownerId: decoded.uid,
     memberIds: [decoded.uid],
+    roles: { [decoded.uid]: "owner" },
     inviteCode: generateInviteCode(),
     inviteEnabled: false,
     credits: 1,
     creditsUsed: 0,
     createdAt: now,
     updatedAt: now,
+  };
+
+  const welcomeGrant = buildLedgerEntry(teamId, {
+    type: "grant",
+    amount: team.credits ?? 0,
+    balanceAfter: team.credits ?? 0,
+    reference: {},
+    note: "Welcome credits",
+    createdBy: decoded.uid,
   });
 
-  batch.set(
-    db.collection("users").doc(decoded.uid),
-    {
+  await store.runTransaction(async (tx) => {
+    const existing = await tx.get(usersRepo, decoded.uid);
+    tx.set(teamsRepo, teamId, team);
+    tx.set(ledgerRepo(teamId), welcomeGrant.id, welcomeGrant);
+    tx.set(usersRepo, decoded.uid, {
+      ...existing,
       uid: decoded.uid,
       email: decoded.email || "",
       displayName: decoded.name || "",
@@ -123,11 +299,8 @@ router.post("/onboarding", async (req: Request, res: Response) => {
       teamIds: [teamId],
       createdAt: now,
       updatedAt: now,
-    },
-    { merge: true }
-  );
-
-  await batch.commit();
+    });
+  });
 
   console.log(`👤 Onboarding complete — user ${decoded.uid}, type: ${parsed.data.businessType}`);
   res.json({ success: true, teamId });
@@ -148,31 +321,120 @@ router.patch("/me", async (req: Request, res: Response) => {
     return;
   }
 
-  const updates: Record<string, unknown> = {
+  const updates: Partial<User> = {
     ...parsed.data,
     updatedAt: new Date().toISOString(),
   };
 
   try {
-    // Update Firestore user doc
-    await db.collection("users").doc(decoded.uid).set(updates, { merge: true });
+    // Update the user doc
+    await mergeUser(decoded.uid, updates);
 
     // Sync displayName to Firebase Auth
     if (updates.displayName) {
       await getAuth().updateUser(decoded.uid, {
-        displayName: updates.displayName as string,
+        displayName: updates.displayName,
       });
     }
 
-    const doc = await db.collection("users").doc(decoded.uid).get();
+    const user = await getUser(decoded.uid);
     console.log(`👤 Profile updated — user ${decoded.uid}`);
-    res.json(doc.data());
+    res.json(user);
   } catch (err) {
     console.error("❌ Profile update error:", err);
     res.status(500).json({ error: "Failed to update profile" });
   }
 });
 
+// POST /api/auth/me/export — Start building a data export archive
+router.post("/me/export", async (req: Request, res: Response) => {
+  const decoded = await verifyAuthToken(req);
+  if (!decoded) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  try {
+    await deleteExpiredExports(decoded.uid);
+
+    const found = await getLatestExport(decoded.uid);
+    const latest = found && (await failStalledExport(found));
+    if (latest?.status === "building") {
+      console.log(`⚠️ POST /auth/me/export — export ${latest.id} already building for user ${decoded.uid}`);
+      res.status(202).json(await describeExport(latest));
+      return;
+    }
+
+    const id = randomUUID();
+    const now = new Date();
+    const dataExport = await createExport({
+      id,
+      uid: decoded.uid,
+      status: "building",
+      path: exportPath(decoded.uid, id),
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + EXPORT_TTL_MS).toISOString(),
+    });
+
+    // Build in the background — clients poll GET /api/auth/me/export
+    buildExport(decoded.uid, id).catch((err) =>
+      console.error(`⚠️ Export ${id} crashed:`, err)
+    );
+
+    console.log(`👤 Data export ${id} requested by user ${decoded.uid}`);
+    res.status(202).json(await describeExport(dataExport));
+  } catch (err) {
+    console.error("❌ Failed to start data export:", err);
+    res.status(500).json({ error: "Failed to start data export" });
+  }
+});
+
+// GET /api/auth/me/export — Status of the latest data export
+router.get("/me/export", async (req: Request, res: Response) => {
+  const decoded = await verifyAuthToken(req);
+  if (!decoded) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  try {
+    const latest = await getLatestExport(decoded.uid);
+    if (!latest || latest.expiresAt <= new Date().toISOString()) {
+      console.log(`⚠️ GET /auth/me/export — no current export for user ${decoded.uid}`);
+      res.status(404).json({ error: "No export found" });
+      return;
+    }
+
+    res.json(await describeExport(latest));
+  } catch (err) {
+    console.error("❌ Failed to fetch data export:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// GET /api/auth/me/export/:id — Status of a specific data export
+router.get("/me/export/:id", async (req: Request, res: Response) => {
+  const decoded = await verifyAuthToken(req);
+  if (!decoded) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  try {
+    const dataExport = await getExport(decoded.uid, req.params.id as string);
+    if (!dataExport || dataExport.expiresAt <= new Date().toISOString()) {
+      console.log(`⚠️ GET /auth/me/export/${req.params.id} — not found or expired`);
+      res.status(404).json({ error: "Export not found" });
+      return;
+    }
+
+    res.json(await describeExport(dataExport));
+  } catch (err) {
+    console.error("❌ Failed to fetch data export:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
 // DELETE /api/auth/me — Delete user account
 router.delete("/me", async (req: Request, res: Response) => {
   const decoded = await verifyAuthToken(req);
@@ -183,14 +445,15 @@ router.delete("/me", async (req: Request, res: Response) => {
 
   try {
     // Check if user owns any teams
-    const ownedTeams = await db
-      .collection("teams")
-      .where("ownerId", "==", decoded.uid)
-      .where("type", "==", "organization")
-      .get();
-
-    if (!ownedTeams.empty) {
-      console.log(`⚠️ DELETE /auth/me — user ${decoded.uid} still owns ${ownedTeams.size} org teams`);
+    const ownedTeams = await teamsRepo.find({
+      where: [
+        ["ownerId", "==", decoded.uid],
+        ["type", "==", "organization"],
+      ],
+    });
+
+    if (ownedTeams.length > 0) {
+      console.log(`⚠️ DELETE /auth/me — user ${decoded.uid} still owns ${ownedTeams.length} org teams`);
       res.status(400).json({
         error: "Transfer or delete your teams before deleting your account",
       });
@@ -198,32 +461,48 @@ router.delete("/me", async (req: Request, res: Response) => {
     }
 
     // Remove user from all team memberIds
-    const memberTeams = await db
-      .collection("teams")
-      .where("memberIds", "array-contains", decoded.uid)
-      .get();
-
-    const batch = db.batch();
-
-    console.log(`👤 Deleting account for user ${decoded.uid} — cleaning up ${memberTeams.size} team memberships`);
-    for (const teamDoc of memberTeams.docs) {
-      const team = teamDoc.data();
-      if (team.type === "personal") {
-        // Delete personal team
-        batch.delete(teamDoc.ref);
-      } else {
-        // Remove from org team memberIds
-        batch.update(teamDoc.ref, {
-          memberIds: team.memberIds.filter((id: string) => id !== decoded.uid),
-          updatedAt: new Date().toISOString(),
-        });
+    const memberTeams = await getTeamsByUser(decoded.uid);
+
+    const personalTeams = memberTeams.filter(
+      (team) => team.type === "personal" && team.ownerId === decoded.uid
+    );
+
+    // Stop billing first — bail out before deleting anything if Stripe refuses
+    for (const team of personalTeams) {
+      if (team.stripeSubscriptionId) {
+        console.log(`👤 Cancelling subscription ${team.stripeSubscriptionId} for team ${team.id}`);
+        await stripe.subscriptions.cancel(team.stripeSubscriptionId);
       }
     }
 
-    // Delete user doc
-    batch.delete(db.collection("users").doc(decoded.uid));
+    for (const team of personalTeams) {
+      await purgeTeamContent(team.id);
+    }
+
+    console.log(`👤 Deleting account for user ${decoded.uid} — cleaning up ${memberTeams.length} team memberships`);
+    await store.runTransaction(async (tx) => {
+      for (const team of memberTeams) {
+        if (team.type === "personal") {
+          // Delete personal team
+          tx.delete(teamsRepo, team.id);
+        } else {
+          // Remove from org team memberIds
+          const roles = { ...team.roles };
+          delete roles[decoded.uid];
+          tx.update(teamsRepo, team.id, {
+            memberIds: team.memberIds.filter((id) => id !== decoded.uid),
+            roles,
+            updatedAt: new Date().toISOString(),
+          });
+        }
+      }
+    });
 
-    await batch.commit();
+    // Delete user doc along with its sessions and exports subcollections
+    await sessionsRepo(decoded.uid).deleteAll();
+    await exportsRepo(decoded.uid).deleteAll();
+    await deleteUser(decoded.uid);
+    await blobs.deletePrefix(`exports/${decoded.uid}/`);
 
     // Delete Firebase Auth user
     await getAuth().deleteUser(decoded.uid);
@@ -1,9 +1,12 @@
 import { Router, Request, Response } from "express";
 import Stripe from "stripe";
-import { resolveAuthContext } from "../lib/auth";
-import { db } from "../lib/firebase";
-
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+import { resolveAuthContext, can } from "../lib/auth";
+import { recordAudit, actorFromContext, SYSTEM_ACTOR } from "../lib/audit";
+import { getTeam, updateTeam } from "../lib/teams";
+import { creditsRemaining, expireCredits, resetCredits } from "../lib/credits";
+import { getLedgerBalance, getLedgerEntries, ledgerToCsv, queryLedger } from "../lib/ledger";
+import { ledgerQuerySchema } from "../lib/schemas";
+import { stripe, syncStripeOwner } from "../lib/stripe";
 
 const FRONTEND_URL = process.env.FRONTEND_URL || "http://localhost:3000";
 const WEBHOOK_SECRET = process.env.STRIPE_WEBHOOK_SECRET!;
@@ -24,6 +27,12 @@ router.post("/checkout", async (req: Request, res: Response) => {
     return;
   }
 
+  if (!can(ctx, "billing:manage")) {
+    console.log(`⚠️ POST /billing/checkout — role ${ctx.role} lacks billing:manage`);
+    res.status(403).json({ error: "Insufficient permissions" });
+    return;
+  }
+
   try {
     const qty = Math.max(1, Math.min(1000, Math.round(Number(req.body.qty) || 1)));
     const ppu = pricePerUnit(qty);
@@ -32,8 +41,7 @@ router.post("/checkout", async (req: Request, res: Response) => {
     console.log(`💳 Checkout — team ${ctx.teamId}, qty: ${qty}, ppu: $${ppu.toFixed(2)}, total: $${(totalCents / 100).toFixed(2)}/mo`);
 
     // Check if team already has an active subscription
-    const teamDoc = await db.collection("teams").doc(ctx.teamId).get();
-    const team = teamDoc.data();
+    const team = await getTeam(ctx.teamId);
     if (team?.stripeSubscriptionId && team?.subscriptionStatus === "active") {
       res.status(400).json({ error: "Already subscribed. Cancel current plan first." });
       return;
@@ -71,6 +79,13 @@ router.post("/checkout", async (req: Request, res: Response) => {
       cancel_url: `${FRONTEND_URL}/plans?canceled=1`,
     });
 
+    await recordAudit(ctx.teamId, {
+      actor: actorFromContext(ctx),
+      action: "subscription.checkout",
+      target: { type: "subscription", id: session.id },
+      after: { qty, totalCents },
+    });
+
     console.log(`💳 Stripe subscription session created — ${session.id}`);
     res.json({ url: session.url });
   } catch (err) {
@@ -114,10 +129,7 @@ router.post("/webhook", async (req: Request, res: Response) => {
     const periodEnd = new Date();
     periodEnd.setMonth(periodEnd.getMonth() + 1);
 
-    const teamRef = db.collection("teams").doc(teamId);
-    await teamRef.update({
-      credits: qty,
-      creditsUsed: 0,
+    const applied = await resetCredits(teamId, qty, { type: "grant", stripeEventId: event.id }, {
       stripeSubscriptionId: subscriptionId || null,
       stripeCustomerId: (session.customer as string) || null,
       subscriptionStatus: "active",
@@ -125,6 +137,17 @@ router.post("/webhook", async (req: Request, res: Response) => {
       currentPeriodEnd: periodEnd.toISOString(),
       cancelAtPeriodEnd: false,
     });
+    if (!applied) {
+      res.json({ received: true });
+      return;
+    }
+
+    await recordAudit(teamId, {
+      actor: SYSTEM_ACTOR,
+      action: "subscription.activate",
+      target: { type: "subscription", id: subscriptionId || session.id },
+      after: { qty, stripeEventId: event.id },
+    });
 
     console.log(`💳 Team ${teamId} subscription activated — ${qty} credits/mo`);
   }
@@ -164,16 +187,28 @@ router.post("/webhook", async (req: Request, res: Response) => {
     // Use invoice period_end as the next billing date
     const periodEnd = new Date(invoice.period_end * 1000).toISOString();
 
-    const teamRef = db.collection("teams").doc(teamId);
-    await teamRef.update({
-      credits: qty,
-      creditsUsed: 0,
+    const applied = await resetCredits(teamId, qty, { type: "renewal", stripeEventId: event.id }, {
       currentPeriodEnd: periodEnd,
       subscriptionStatus: "active",
       stripeSubscriptionId: subId || null,
     });
+    if (!applied) {
+      res.json({ received: true });
+      return;
+    }
+
+    await recordAudit(teamId, {
+      actor: SYSTEM_ACTOR,
+      action: "subscription.renew",
+      target: { type: "subscription", id: subId || invoice.id || "unknown" },
+      after: { qty, currentPeriodEnd: periodEnd, stripeEventId: event.id },
+    });
 
     console.log(`💳 Team ${teamId} credits reset — ${qty} fresh credits`);
+
+    // An ownership transfer that could not reach Stripe at the time
+    const team = await getTeam(teamId);
+    if (team?.stripeOwnerSyncPending) await syncStripeOwner(team);
   }
 
   if (event.type === "customer.subscription.deleted") {
@@ -188,14 +223,29 @@ router.post("/webhook", async (req: Request, res: Response) => {
 
     console.log(`💳 Subscription ended — team ${teamId}`);
 
-    const teamRef = db.collection("teams").doc(teamId);
-    await teamRef.update({
-      credits: 0,
-      creditsUsed: 0,
+    if (!(await getTeam(teamId))) {
+      // Team was deleted along with its owner's account
+      console.log(`💳 Team ${teamId} no longer exists, skipping`);
+      res.json({ received: true });
+      return;
+    }
+
+    const applied = await expireCredits(teamId, event.id, {
       subscriptionStatus: "canceled",
       stripeSubscriptionId: null,
       cancelAtPeriodEnd: false,
     });
+    if (!applied) {
+      res.json({ received: true });
+      return;
+    }
+
+    await recordAudit(teamId, {
+      actor: SYSTEM_ACTOR,
+      action: "subscription.end",
+      target: { type: "subscription", id: sub.id },
+      after: { stripeEventId: event.id },
+    });
 
     console.log(`💳 Team ${teamId} subscription canceled — credits removed`);
   }
@@ -211,9 +261,14 @@ router.post("/cancel-subscription", async (req: Request, res: Response) => {
     return;
   }
 
+  if (!can(ctx, "billing:manage")) {
+    console.log(`⚠️ POST /billing/cancel-subscription — role ${ctx.role} lacks billing:manage`);
+    res.status(403).json({ error: "Insufficient permissions" });
+    return;
+  }
+
   try {
-    const teamDoc = await db.collection("teams").doc(ctx.teamId).get();
-    const team = teamDoc.data();
+    const team = await getTeam(ctx.teamId);
 
     if (!team?.stripeSubscriptionId) {
       res.status(400).json({ error: "No active subscription" });
@@ -224,10 +279,18 @@ router.post("/cancel-subscription", async (req: Request, res: Response) => {
       cancel_at_period_end: true,
     });
 
-    await db.collection("teams").doc(ctx.teamId).update({
+    await updateTeam(ctx.teamId, {
       cancelAtPeriodEnd: true,
     });
 
+    await recordAudit(ctx.teamId, {
+      actor: actorFromContext(ctx),
+      action: "subscription.cancel",
+      target: { type: "subscription", id: team.stripeSubscriptionId },
+      before: { cancelAtPeriodEnd: team.cancelAtPeriodEnd ?? false },
+      after: { cancelAtPeriodEnd: true },
+    });
+
     console.log(`💳 Subscription cancellation scheduled — team ${ctx.teamId}`);
     res.json({ success: true });
   } catch (err) {
@@ -244,9 +307,14 @@ router.post("/reactivate-subscription", async (req: Request, res: Response) => {
     return;
   }
 
+  if (!can(ctx, "billing:manage")) {
+    console.log(`⚠️ POST /billing/reactivate-subscription — role ${ctx.role} lacks billing:manage`);
+    res.status(403).json({ error: "Insufficient permissions" });
+    return;
+  }
+
   try {
-    const teamDoc = await db.collection("teams").doc(ctx.teamId).get();
-    const team = teamDoc.data();
+    const team = await getTeam(ctx.teamId);
 
     if (!team?.stripeSubscriptionId) {
       res.status(400).json({ error: "No active subscription" });
@@ -257,10 +325,18 @@ router.post("/reactivate-subscription", async (req: Request, res: Response) => {
       cancel_at_period_end: false,
     });
 
-    await db.collection("teams").doc(ctx.teamId).update({
+    await updateTeam(ctx.teamId, {
       cancelAtPeriodEnd: false,
     });
 
+    await recordAudit(ctx.teamId, {
+      actor: actorFromContext(ctx),
+      action: "subscription.reactivate",
+      target: { type: "subscription", id: team.stripeSubscriptionId },
+      before: { cancelAtPeriodEnd: team.cancelAtPeriodEnd ?? false },
+      after: { cancelAtPeriodEnd: false },
+    });
+
     console.log(`💳 Subscription reactivated — team ${ctx.teamId}`);
     res.json({ success: true });
   } catch (err) {
@@ -277,16 +353,23 @@ router.get("/credits", async (req: Request, res: Response) => {
     return;
   }
 
+  if (!can(ctx, "billing:read")) {
+    console.log(`⚠️ GET /billing/credits — role ${ctx.role} lacks billing:read`);
+    res.status(403).json({ error: "Insufficient permissions" });
+    return;
+  }
+
   try {
-    const teamDoc = await db.collection("teams").doc(ctx.teamId).get();
-    const team = teamDoc.data();
+    const team = await getTeam(ctx.teamId);
     const credits = team?.credits ?? 0;
     const creditsUsed = team?.creditsUsed ?? 0;
+    const creditsReserved = team?.creditsReserved ?? 0;
 
     res.json({
       credits,
       creditsUsed,
-      remaining: credits - creditsUsed,
+      creditsReserved,
+      remaining: credits - creditsUsed - creditsReserved,
       subscription: team?.stripeSubscriptionId
         ? {
             status: team.subscriptionStatus || null,
@@ -302,4 +385,56 @@ router.get("/credits", async (req: Request, res: Response) => {
   }
 });
 
+// GET /api/billing/ledger — Credit history, paginated or as CSV (?format=csv)
+router.get("/ledger", async (req: Request, res: Response) => {
+  const ctx = await resolveAuthContext(req);
+  if (!ctx) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  if (!can(ctx, "billing:read")) {
+    console.log(`⚠️ GET /billing/ledger — role ${ctx.role} lacks billing:read`);
+    res.status(403).json({ error: "Insufficient permissions" });
+    return;
+  }
+
+  const parsed = ledgerQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    console.log(`⚠️ GET /billing/ledger — invalid query for team ${ctx.teamId}`);
+    res.status(400).json({ error: parsed.error.flatten().fieldErrors });
+    return;
+  }
+
+  try {
+    const { format, ...query } = parsed.data;
+
+    if (format === "csv") {
+      const entries = await getLedgerEntries(ctx.teamId, query);
+      console.log(`💳 Ledger CSV export — team ${ctx.teamId}, ${entries.length} entries`);
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="credit-ledger-${ctx.teamId}.csv"`);
+      res.send(ledgerToCsv(entries));
+      return;
+    }
+
+    const result = await queryLedger(ctx.teamId, query);
+
+    // Reconciliation is only worth computing once per listing
+    let balance = null;
+    if (!query.cursor) {
+      const team = await getTeam(ctx.teamId);
+      const teamBalance = team ? creditsRemaining(team) : 0;
+      const ledgerBalance = await getLedgerBalance(ctx.teamId);
+      balance = { team: teamBalance, ledger: ledgerBalance, inSync: teamBalance === ledgerBalance };
+    }
+
+    console.log(`💳 Ledger for team ${ctx.teamId} — ${result.entries.length} entries`);
+    res.json({ ...result, balance });
+  } catch (err) {
+    console.error("❌ Ledger fetch error:", err);
+    res.status(500).json({ error: "Failed to fetch ledger" });
+  }
+});
+
 export default router;
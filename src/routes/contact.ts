@@ -1,13 +1,5 @@
 import { Router, Request, Response } from "express";
-import sgMail from "@sendgrid/mail";
-
-const apiKey = process.env.SENDGRID_API_KEY;
-if (apiKey) {
-  sgMail.setApiKey(apiKey);
-  console.log(`📧 SendGrid API key loaded (${apiKey.slice(0, 5)}...${apiKey.slice(-4)}, ${apiKey.length} chars)`);
-} else {
-  console.error("❌ SENDGRID_API_KEY is not set — contact emails will fail");
-}
+import { sgMail, FROM } from "../lib/email";
 
 const RECIPIENTS = [
   "itamar.stollman@gmail.com",
@@ -31,7 +23,7 @@ router.post("/", async (req: Request, res: Response) => {
 
     const msg = {
       to: RECIPIENTS,
-      from: { email: "noreply@code-callfy.com", name: "AI Floor Planner" },
+      from: FROM,
       replyTo: email,
       subject: `AI Floor Planner — New message from ${name}`,
       text: `Name: ${name}\nEmail: ${email}\n\n${message}`,
@@ -0,0 +1,65 @@
+import { Router, Request, Response } from "express";
+import { pipeline, Transform } from "stream";
+import { blobs, LOCAL_UPLOAD_SECRET, verifyLocalUpload } from "../lib/persistence";
+
+const router = Router();
+
+// Fails the upload as soon as more than `maxBytes` arrive
+function limitBytes(maxBytes: number): Transform {
+  let received = 0;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      received += chunk.length;
+      if (received > maxBytes) callback(new Error(`Upload exceeds ${maxBytes} bytes`));
+      else callback(null, chunk);
+    },
+  });
+}
+
+// PUT /files/* — Direct upload to local storage, standing in for a signed GCS URL
+router.put("/*path", async (req: Request, res: Response) => {
+  const objectPath = (req.params.path as unknown as string[]).join("/");
+  const grant = {
+    path: objectPath,
+    contentType: String(req.query.contentType || ""),
+    maxBytes: Number(req.query.maxBytes),
+    expires: Number(req.query.expires),
+  };
+
+  if (!verifyLocalUpload(LOCAL_UPLOAD_SECRET, grant, String(req.query.signature || ""))) {
+    console.log(`⚠️ PUT /files/${objectPath} — invalid signature`);
+    res.status(403).json({ error: "Invalid upload signature" });
+    return;
+  }
+
+  if (grant.expires < Date.now()) {
+    console.log(`⚠️ PUT /files/${objectPath} — upload URL expired`);
+    res.status(403).json({ error: "Upload URL expired" });
+    return;
+  }
+
+  if (req.headers["content-type"] !== grant.contentType) {
+    console.log(`⚠️ PUT /files/${objectPath} — content type ${req.headers["content-type"]} not allowed`);
+    res.status(400).json({ error: `Content-Type must be ${grant.contentType}` });
+    return;
+  }
+
+  if (Number(req.headers["content-length"]) > grant.maxBytes) {
+    console.log(`⚠️ PUT /files/${objectPath} — ${req.headers["content-length"]} bytes exceeds ${grant.maxBytes}`);
+    res.status(413).json({ error: `Upload exceeds ${grant.maxBytes} bytes` });
+    return;
+  }
+
+  try {
+    // pipeline() rather than pipe() so an aborted request fails the save instead of stalling it
+    const body = pipeline(req, limitBytes(grant.maxBytes), () => {});
+    await blobs.saveStream(objectPath, body, { contentType: grant.contentType });
+    console.log(`📦 Stored direct upload ${objectPath}`);
+    res.status(200).end();
+  } catch (err) {
+    console.error(`❌ Direct upload of ${objectPath} failed:`, err);
+    res.status(400).json({ error: err instanceof Error ? err.message : "Upload failed" });
+  }
+});
+
+export default router;
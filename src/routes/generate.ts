@@ -1,29 +1,157 @@
 import { Router, Request, Response } from "express";
 import multer from "multer";
-import { generateWorldFromImageBase64, generateWorldFromText } from "../lib/worldlabs";
-import { updateSpace, getSpace, Revision } from "../lib/storage";
-import { uploadImage } from "../lib/firebase";
+import os from "os";
+import path from "path";
+import { promises as fs } from "fs";
+import { updateSpace, getSpace, Revision, type ImageDerivatives } from "../lib/storage";
 import { randomUUID } from "crypto";
-import { resolveAuthContext } from "../lib/auth";
-import { db } from "../lib/firebase";
+import { resolveAuthContext, can } from "../lib/auth";
+import { recordAudit, actorFromContext } from "../lib/audit";
+import { buildImageInput, buildTextInput, downloadImage, startGeneration } from "../lib/generation";
+import { generateOptionsSchema } from "../lib/schemas";
+import { getTeam } from "../lib/teams";
+import { DEFAULT_PROMPT_TEMPLATE, PROMPT_STYLES, PROMPT_VARIABLES, ROOM_TYPES, resolvePrompt } from "../lib/prompts";
+import { listProviders, resolveModel } from "../lib/providers";
+import { commitCredit, releaseCredit, reserveCredit } from "../lib/credits";
+import { publishSpaceEvent, spaceEvent } from "../lib/spaceEvents";
+import { normalizeFloorPlan, normalizePhoto } from "../lib/photos";
+import { assessPhotos, type PhotoSource } from "../lib/photoQuality";
+import { ALLOWED_IMAGE_TYPES, MAX_IMAGE_BYTES, MAX_IMAGES } from "../lib/uploads";
+
+// Spooled to disk so up to 16 × 20MB uploads never sit in memory at once.
+// Files are removed once the response has been sent.
+const UPLOAD_TMP_DIR = process.env.UPLOAD_TMP_DIR || path.join(os.tmpdir(), "uploads");
 
 const upload = multer({
-  storage: multer.memoryStorage(),
-  limits: { fileSize: 20 * 1024 * 1024 }, // 20MB per file
+  storage: multer.diskStorage({ destination: UPLOAD_TMP_DIR }),
+  limits: { fileSize: MAX_IMAGE_BYTES },
 });
 
-const ALLOWED_TYPES = ["image/jpeg", "image/png", "image/webp", "image/heic"];
+function removeUploads(req: Request): void {
+  const uploaded = req.files as { [fieldname: string]: Express.Multer.File[] } | undefined;
+  for (const file of Object.values(uploaded || {}).flat()) {
+    fs.rm(file.path, { force: true }).catch((err) =>
+      console.error(`⚠️ Failed to remove upload ${file.path}:`, err)
+    );
+  }
+}
+
+const MAX_REVISIONS = 5;
+
+function hasAllowedType(file: Express.Multer.File): boolean {
+  return (ALLOWED_IMAGE_TYPES as readonly string[]).includes(file.mimetype);
+}
 
 const router = Router();
 
-// POST /api/generate — Trigger generation (accepts up to 15 images + optional floorplan)
-router.post("/", upload.fields([{ name: "files", maxCount: 15 }, { name: "floorplan", maxCount: 1 }]), async (req: Request, res: Response) => {
+// GET /api/generate/models — Available providers, their models and capabilities
+router.get("/models", async (req: Request, res: Response) => {
+  const ctx = await resolveAuthContext(req);
+  if (!ctx) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  const providers = listProviders().map((p) => ({
+    id: p.id,
+    label: p.label,
+    models: p.models,
+    capabilities: p.capabilities,
+  }));
+  res.json({ providers, defaultModel: resolveModel()?.model.id ?? null });
+});
+
+// GET /api/generate/prompts — Prompt template variables, styles and room types
+router.get("/prompts", async (req: Request, res: Response) => {
+  const ctx = await resolveAuthContext(req);
+  if (!ctx) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  try {
+    const team = await getTeam(ctx.teamId);
+    res.json({
+      variables: PROMPT_VARIABLES,
+      styles: PROMPT_STYLES,
+      roomTypes: ROOM_TYPES,
+      defaultTemplate: DEFAULT_PROMPT_TEMPLATE,
+      settings: team?.generationSettings ?? {},
+    });
+  } catch (err) {
+    console.error("❌ Failed to load prompt options:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// POST /api/generate/analyze — Score uploaded photos, or those stored on a space, before generating
+router.post("/analyze", upload.fields([{ name: "files", maxCount: MAX_IMAGES }]), async (req: Request, res: Response) => {
+  res.on("close", () => removeUploads(req));
+
   const ctx = await resolveAuthContext(req);
   if (!ctx) {
     res.status(401).json({ error: "Unauthorized" });
     return;
   }
 
+  if (!can(ctx, "generate")) {
+    console.log(`⚠️ POST /generate/analyze — role ${ctx.role} lacks generate`);
+    res.status(403).json({ error: "Insufficient permissions" });
+    return;
+  }
+
+  try {
+    const uploadedFiles = req.files as { [fieldname: string]: Express.Multer.File[] } | undefined;
+    const files = uploadedFiles?.files || [];
+    let images: PhotoSource[] = files.map((file) => file.path);
+
+    if (files.some((file) => !hasAllowedType(file))) {
+      console.log("⚠️ POST /generate/analyze — rejected file type");
+      res.status(400).json({ error: "Invalid file type. Allowed: JPEG, PNG, WebP, HEIC" });
+      return;
+    }
+
+    if (files.length === 0) {
+      const spaceId = req.body?.spaceId as string | undefined;
+      const space = spaceId ? await getSpace(spaceId) : undefined;
+      if (!space || space.teamId !== ctx.teamId) {
+        console.log(`⚠️ POST /generate/analyze — no files and space ${spaceId} not found`);
+        res.status(400).json({ error: "Upload files or pass the spaceId of a space with stored images" });
+        return;
+      }
+      images = (space.imageUrls || []).map((url) => () => downloadImage(url));
+    }
+
+    const team = await getTeam(ctx.teamId);
+    const quality = await assessPhotos(images);
+    console.log(`🎨 Analyzed ${images.length} photo(s) — ${quality.passed ? "passed" : "warnings"}`);
+    res.json({ ...quality, strict: !!team?.generationSettings?.strictQuality });
+  } catch (err) {
+    console.error("❌ Failed to analyze photos:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// POST /api/generate — Trigger generation from uploaded images (up to 15 + optional floorplan),
+// the images already stored on the space (source=stored) or text alone
+router.post("/", upload.fields([{ name: "files", maxCount: MAX_IMAGES }, { name: "floorplan", maxCount: 1 }]), async (req: Request, res: Response) => {
+  res.on("close", () => removeUploads(req));
+
+  const ctx = await resolveAuthContext(req);
+  if (!ctx) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  if (!can(ctx, "generate")) {
+    console.log(`⚠️ POST /generate — role ${ctx.role} lacks generate`);
+    res.status(403).json({ error: "Insufficient permissions" });
+    return;
+  }
+
+  // Held until the world is ingested; released on every failure path
+  let reservationId: string | null = null;
+
   try {
     const spaceId = req.body.spaceId as string;
     const model = req.body.model as string | null;
@@ -44,129 +172,231 @@ router.post("/", upload.fields([{ name: "files", maxCount: 15 }, { name: "floorp
       return;
     }
 
-    // Credit check — deduct 1 credit atomically
-    // Skip for legacy teams that don't have credits field (pre-billing)
-    const teamRef = db.collection("teams").doc(ctx.teamId);
-    const hasCredit = await db.runTransaction(async (tx) => {
-      const teamDoc = await tx.get(teamRef);
-      const team = teamDoc.data();
-      if (team?.credits === undefined) return true; // legacy team — no limits
-      const credits = team.credits as number;
-      const creditsUsed = (team.creditsUsed as number) ?? 0;
-      if (creditsUsed >= credits) return false;
-      tx.update(teamRef, { creditsUsed: creditsUsed + 1 });
-      return true;
-    });
+    const parsed = generateOptionsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      console.log("⚠️ POST /generate — validation failed");
+      res.status(400).json({ error: parsed.error.flatten().fieldErrors });
+      return;
+    }
+    const { mode, azimuths, style, roomType, promptTemplate } = parsed.data;
+    const source = parsed.data.source ?? (files.length > 0 ? "upload" : "text");
 
-    if (!hasCredit) {
-      console.log(`⚠️ POST /generate — team ${ctx.teamId} has no credits remaining`);
-      res.status(402).json({ error: "No credits remaining", code: "NO_CREDITS" });
+    if (source === "upload" ? files.length === 0 : files.length > 0) {
+      console.log(`⚠️ POST /generate — ${files.length} file(s) sent with source ${source}`);
+      res.status(400).json({ error: source === "upload" ? "No files uploaded" : "Files can only be sent with source=upload" });
+      return;
+    }
+
+    // Photos from a finalized upload session, or from an earlier generation
+    const storedUrls = space.imageUrls || [];
+    if (source === "stored" && storedUrls.length === 0) {
+      console.log(`⚠️ POST /generate — space ${spaceId} has no stored images`);
+      res.status(400).json({ error: "Space has no stored images — upload them first", code: "NO_STORED_IMAGES" });
       return;
     }
+    const imageCount = source === "upload" ? files.length : source === "stored" ? storedUrls.length : 0;
+
+    const team = await getTeam(ctx.teamId);
+    const settings = team?.generationSettings;
 
     const useGemini = model === "gemini";
-    const draft = model === "Marble 0.1-mini";
-
-    if (files.length > 0) {
-      // Validate all file types
-      for (const file of files) {
-        if (!ALLOWED_TYPES.includes(file.mimetype)) {
-          console.log(`⚠️ POST /generate — rejected file type: ${file.mimetype}`);
-          res.status(400).json({ error: "Invalid file type. Allowed: JPEG, PNG, WebP, HEIC" });
-          return;
-        }
+    // Gemini without images falls through to a world generation. A team default
+    // model that is no longer available falls back to the built-in default.
+    const worldModel =
+      useGemini || !model ? resolveModel(settings?.model) ?? resolveModel() : resolveModel(model);
+    if (!worldModel) {
+      console.log(`⚠️ POST /generate — unknown model ${model}`);
+      res.status(400).json({ error: `Unknown model: ${model}`, code: "UNKNOWN_MODEL" });
+      return;
+    }
+
+    const prompt = resolvePrompt(space, settings, { style, roomType, promptTemplate });
+
+    if (azimuths && azimuths.length !== imageCount) {
+      console.log(`⚠️ POST /generate — ${azimuths.length} azimuths for ${imageCount} images`);
+      res.status(400).json({ error: "azimuths must have one entry per image" });
+      return;
+    }
+
+    if (mode === "multi" && imageCount < 2) {
+      console.log(`⚠️ POST /generate — multi-view mode with ${imageCount} image(s)`);
+      res.status(400).json({ error: "Multi-view generation needs at least two photos" });
+      return;
+    }
+
+    const capabilities = worldModel.provider.capabilities;
+    const inputType = imageCount === 0 ? "text" : mode === "multi" ? "multi-view" : mode === "panorama" ? "panorama" : "image";
+    const accepts = {
+      text: capabilities.textInput,
+      image: capabilities.imageInput,
+      "multi-view": capabilities.multiImage,
+      panorama: capabilities.panoramaInput,
+    }[inputType];
+    if (!accepts && !(useGemini && imageCount > 0)) {
+      console.log(`⚠️ POST /generate — ${worldModel.provider.id} does not accept ${inputType} input`);
+      res.status(400).json({ error: `${worldModel.model.label} does not accept ${inputType} input` });
+      return;
+    }
+
+    // Validate all file types before holding a credit
+    for (const file of files) {
+      if (!hasAllowedType(file)) {
+        console.log(`⚠️ POST /generate — rejected file type: ${file.mimetype}`);
+        res.status(400).json({ error: "Invalid file type. Allowed: JPEG, PNG, WebP, HEIC" });
+        return;
       }
+    }
+
+    if (imageCount > 0 && useGemini && (space.revisions || []).length >= MAX_REVISIONS) {
+      console.log(`⚠️ POST /generate — space ${spaceId} max revisions reached`);
+      res.status(400).json({ error: `Maximum revisions reached (${MAX_REVISIONS})`, code: "MAX_REVISIONS" });
+      return;
+    }
+
+    // Scored before any credit is held, so strict teams are never charged for rejected photos
+    const photos: PhotoSource[] =
+      source === "upload" ? files.map((file) => file.path) : storedUrls.map((url) => () => downloadImage(url));
+    const quality = imageCount > 0 ? await assessPhotos(photos) : null;
+    if (quality && !quality.passed && settings?.strictQuality) {
+      console.log(`⚠️ POST /generate — space ${spaceId} photos failed the quality checks (strict mode)`);
+      res.status(422).json({ error: "Some photos failed the quality checks", code: "PHOTO_QUALITY", quality });
+      return;
+    }
 
+    // Hold one credit — legacy teams without a credits field get an empty hold
+    const reservation = await reserveCredit(ctx.teamId, spaceId, ctx.uid);
+    if (!reservation) {
+      console.log(`⚠️ POST /generate — team ${ctx.teamId} has no credits remaining`);
+      res.status(402).json({ error: "No credits remaining", code: "NO_CREDITS" });
+      return;
+    }
+    reservationId = reservation.id;
+
+    let imageUrls = source === "stored" ? storedUrls : [];
+    if (source === "upload") {
       console.log(`🎨 ${files.length} image(s) uploaded for space ${spaceId}`);
+      publishSpaceEvent(spaceEvent(space, "uploading", { message: `Uploading ${files.length} image(s)` }));
 
-      // Upload all images to storage in parallel
-      const imageUrls = await Promise.all(
-        files.map(async (file, i) => {
-          const ext = file.originalname.split(".").pop() || "jpg";
-          return uploadImage(
-            file.buffer,
-            `images/${spaceId}/${i}.${ext}`,
-            file.mimetype || "image/jpeg"
-          );
-        })
-      );
+      // Normalize and store the photos one at a time — a decoded photo takes
+      // many times the memory of its file. Each request gets its own prefix,
+      // like an upload session, so earlier operations keep their photos.
+      const uploadPrefix = `images/${spaceId}/${randomUUID()}`;
+      const imageDerivatives: ImageDerivatives[] = [];
+      for (const [i, file] of files.entries()) {
+        imageDerivatives.push(await normalizePhoto(file.path, `${uploadPrefix}/${i}`));
+      }
+      imageUrls = imageDerivatives.map((d) => d.full);
 
       // Store all image URLs and use first as originalImageUrl
       await updateSpace(spaceId, {
         originalImageUrl: imageUrls[0],
         imageUrls,
+        imageDerivatives,
         imageCount: imageUrls.length,
       });
 
       // Upload floor plan if provided
       if (floorplanFiles.length > 0) {
-        const fp = floorplanFiles[0];
-        const fpExt = fp.originalname.split(".").pop() || "png";
-        const floorPlanUrl = await uploadImage(
-          fp.buffer,
-          `images/${spaceId}/floorplan.${fpExt}`,
-          fp.mimetype || "image/png"
-        );
-        await updateSpace(spaceId, { floorPlanUrl } as any);
+        const floorPlanUrl = await normalizeFloorPlan(floorplanFiles[0].path, `${uploadPrefix}/floorplan`);
+        await updateSpace(spaceId, { floorPlanUrl });
       }
+    }
 
+    if (imageCount > 0) {
       // Gemini mode: skip WorldLabs, use uploaded image directly
       if (useGemini) {
-        const style = (req.body.style as string) || "modern_luxury";
-        const prompt = (req.body.prompt as string) || "";
+        const revisionStyle = style || settings?.style || "modern_luxury";
+        const revisionPrompt = (req.body.prompt as string) || "";
         const currentRevisions = space.revisions || [];
 
-        if (currentRevisions.length >= 5) {
-          console.log(`⚠️ POST /generate — space ${spaceId} max revisions reached`);
-          res.status(400).json({ error: "Maximum revisions reached (5)", code: "MAX_REVISIONS" });
-          return;
-        }
-
         const revision: Revision = {
           id: randomUUID(),
           imageUrl: imageUrls[0],
-          style,
-          prompt,
+          style: revisionStyle,
+          prompt: revisionPrompt,
           createdAt: new Date().toISOString(),
         };
 
-        await updateSpace(spaceId, {
+        const ready = await updateSpace(spaceId, {
           status: "ready",
           thumbnailUrl: imageUrls[0],
           revisions: [...currentRevisions, revision],
-        } as any);
+        });
+        if (ready) publishSpaceEvent(spaceEvent(ready, "ready"));
+        await commitCredit(reservation.id);
+        reservationId = null;
 
-        console.log(`🎨 Gemini mode — space ${spaceId} marked ready (revision ${currentRevisions.length + 1}/5)`);
-        res.json({ status: "ready", revision });
+        await recordAudit(ctx.teamId, {
+          actor: actorFromContext(ctx),
+          action: "generation.revision",
+          target: { type: "space", id: spaceId },
+          after: { model: "gemini", style: revisionStyle, revisionId: revision.id, imageCount: imageUrls.length },
+        });
+
+        console.log(`🎨 Gemini mode — space ${spaceId} marked ready (revision ${currentRevisions.length + 1}/${MAX_REVISIONS})`);
+        res.json({ status: "ready", revision, quality });
         return;
       }
 
-      // Use first image for 3D generation via WorldLabs
-      const base64 = files[0].buffer.toString("base64");
-      const operationId = await generateWorldFromImageBase64(base64, space.name, draft);
-
-      await updateSpace(spaceId, {
-        operationId,
-        status: "generating",
+      // Single photo, panorama or all photos as one multi-view prompt
+      // The stored copy — rotated and re-encoded, unlike the uploaded file
+      const firstImage = await downloadImage(imageUrls[0]);
+      const input = await buildImageInput(worldModel.provider, mode, prompt, imageUrls, { firstImage, azimuths });
+      console.log(`🎨 ${input.type} input for space ${spaceId}${input.images ? ` (${input.images.length} views)` : ""}`);
+      const operation = await startGeneration(space, {
+        uid: ctx.uid,
+        model: worldModel,
+        input,
+        reservationId: reservation.id,
+        imageBase64: input.type === "multi-image" ? undefined : firstImage.toString("base64"),
+      });
+      // The worker commits or releases the hold from here on
+      reservationId = null;
+      await recordAudit(ctx.teamId, {
+        actor: actorFromContext(ctx),
+        action: "generation.start",
+        target: { type: "space", id: spaceId },
+        before: { status: space.status, operationId: space.operationId ?? null },
+        after: {
+          status: "generating",
+          operationId: operation.id,
+          model: worldModel.model.id,
+          input: input.type,
+          source,
+          imageCount: input.images?.length ?? 1,
+          prompt: prompt.text,
+        },
       });
 
-      console.log(`🎨 Generation started — space ${spaceId}, model: ${draft ? "mini" : "plus"}`);
-      res.json({ operationId, status: "generating" });
+      res.json({ operationId: operation.id, status: "generating", quality });
     } else {
       console.log(`🎨 Text-only generation for space ${spaceId}`);
-      const operationId = await generateWorldFromText(space.name, draft);
-
-      await updateSpace(spaceId, {
-        operationId,
-        status: "generating",
+      const operation = await startGeneration(space, {
+        uid: ctx.uid,
+        model: worldModel,
+        input: buildTextInput(prompt),
+        reservationId: reservation.id,
+      });
+      // The worker commits or releases the hold from here on
+      reservationId = null;
+      await recordAudit(ctx.teamId, {
+        actor: actorFromContext(ctx),
+        action: "generation.start",
+        target: { type: "space", id: spaceId },
+        before: { status: space.status, operationId: space.operationId ?? null },
+        after: { status: "generating", operationId: operation.id, model: worldModel.model.id, prompt: prompt.text },
       });
 
-      console.log(`🎨 Generation started — space ${spaceId}, model: ${draft ? "mini" : "plus"}`);
-      res.json({ operationId, status: "generating" });
+      res.json({ operationId: operation.id, status: "generating" });
     }
   } catch (err) {
     const message = err instanceof Error ? err.message : "Unknown error";
     console.error("❌ Generate error:", message);
+    if (reservationId) {
+      await releaseCredit(reservationId, message).catch((e) =>
+        console.error(`❌ Failed to release credit reservation ${reservationId}:`, e)
+      );
+    }
     res.status(500).json({ error: message });
   }
 });
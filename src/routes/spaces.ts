@@ -1,8 +1,24 @@
 import { Router, Request, Response } from "express";
 import { getAllSpaces, createSpace, getSpace, updateSpace, deleteSpace, deleteSpaceFiles, type Space } from "../lib/storage";
 import { getAllTours, removeRoomFromTour } from "../lib/tours";
-import { resolveAuthContext } from "../lib/auth";
-import { createSpaceSchema, updateSpaceSchema } from "../lib/schemas";
+import { deleteOperationsBySpace, getOperationRecord, getOperationsBySpace } from "../lib/operations";
+import { resolveAuthContext, can } from "../lib/auth";
+import { recordAudit, actorFromContext, diffFields } from "../lib/audit";
+import { createSpaceSchema, createUploadSessionSchema, updateSpaceSchema } from "../lib/schemas";
+import { spaceEvent, subscribeToSpace, subscribeToTeam } from "../lib/spaceEvents";
+import { openEventStream } from "../lib/sse";
+import { activateGeneration, cancelGeneration, startGeneration } from "../lib/generation";
+import { resolveModel } from "../lib/providers";
+import { releaseCredit, reserveCredit } from "../lib/credits";
+import type { GenerationInput } from "../lib/operations";
+import {
+  createUploadSession,
+  deleteUploadSessionsBySpace,
+  finalizeUploadSession,
+  getUploadSession,
+  isUploadSessionExpired,
+  type UploadFile,
+} from "../lib/uploads";
 import { randomUUID } from "crypto";
 
 const router = Router();
@@ -15,6 +31,12 @@ router.get("/", async (req: Request, res: Response) => {
     return;
   }
 
+  if (!can(ctx, "spaces:read")) {
+    console.log(`⚠️ GET /spaces — role ${ctx.role} lacks spaces:read`);
+    res.status(403).json({ error: "Insufficient permissions" });
+    return;
+  }
+
   try {
     const spaces = await getAllSpaces(ctx.teamId);
     console.log(`🏠 Listed ${spaces.length} spaces for team ${ctx.teamId}`);
@@ -33,6 +55,12 @@ router.post("/", async (req: Request, res: Response) => {
     return;
   }
 
+  if (!can(ctx, "spaces:write")) {
+    console.log(`⚠️ POST /spaces — role ${ctx.role} lacks spaces:write`);
+    res.status(403).json({ error: "Insufficient permissions" });
+    return;
+  }
+
   const parsed = createSpaceSchema.safeParse(req.body);
   if (!parsed.success) {
     console.log(`⚠️ POST /spaces — validation failed for team ${ctx.teamId}`);
@@ -57,6 +85,12 @@ router.post("/", async (req: Request, res: Response) => {
     };
 
     await createSpace(space);
+    await recordAudit(ctx.teamId, {
+      actor: actorFromContext(ctx),
+      action: "space.create",
+      target: { type: "space", id: space.id },
+      after: { name, address, description },
+    });
     console.log(`🏠 Space created: "${name}" in team ${ctx.teamId}`);
     res.status(201).json(space);
   } catch (err) {
@@ -65,6 +99,61 @@ router.post("/", async (req: Request, res: Response) => {
   }
 });
 
+// GET /api/spaces/events — Stream generation progress for every space in the team (SSE)
+router.get("/events", async (req: Request, res: Response) => {
+  const ctx = await resolveAuthContext(req, { allowTeamQuery: true });
+  if (!ctx) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  if (!can(ctx, "spaces:read")) {
+    console.log(`⚠️ GET /spaces/events — role ${ctx.role} lacks spaces:read`);
+    res.status(403).json({ error: "Insufficient permissions" });
+    return;
+  }
+
+  const stream = openEventStream(req, res);
+  stream.onClose(subscribeToTeam(ctx.teamId, (event) => stream.send(event)));
+  stream.onClose(() => console.log(`📡 Team stream closed — team ${ctx.teamId}`));
+  console.log(`📡 Team stream opened — team ${ctx.teamId}`);
+});
+
+// GET /api/spaces/:id/events — Stream generation progress for one space (SSE)
+router.get("/:id/events", async (req: Request, res: Response) => {
+  const ctx = await resolveAuthContext(req, { allowTeamQuery: true });
+  if (!ctx) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  if (!can(ctx, "spaces:read")) {
+    console.log(`⚠️ GET /spaces/${req.params.id}/events — role ${ctx.role} lacks spaces:read`);
+    res.status(403).json({ error: "Insufficient permissions" });
+    return;
+  }
+
+  try {
+    const space = await getSpace(req.params.id as string);
+    if (!space || space.teamId !== ctx.teamId) {
+      console.log(`⚠️ GET /spaces/${req.params.id}/events — not found or wrong team`);
+      res.status(404).json({ error: "Space not found" });
+      return;
+    }
+
+    const stream = openEventStream(req, res);
+    stream.onClose(subscribeToSpace(space.id, (event) => stream.send(event)));
+    stream.onClose(() => console.log(`📡 Space stream closed — space ${space.id}`));
+
+    // Start with the stored state so a late subscriber is never behind
+    stream.send(spaceEvent(space, space.status));
+    console.log(`📡 Space stream opened — space ${space.id}`);
+  } catch (err) {
+    console.error("❌ Failed to open space stream:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
 // GET /api/spaces/:id — Get single space
 router.get("/:id", async (req: Request, res: Response) => {
   const ctx = await resolveAuthContext(req);
@@ -73,6 +162,12 @@ router.get("/:id", async (req: Request, res: Response) => {
     return;
   }
 
+  if (!can(ctx, "spaces:read")) {
+    console.log(`⚠️ GET /spaces/${req.params.id} — role ${ctx.role} lacks spaces:read`);
+    res.status(403).json({ error: "Insufficient permissions" });
+    return;
+  }
+
   try {
     const space = await getSpace(req.params.id as string);
     if (!space || space.teamId !== ctx.teamId) {
@@ -88,6 +183,341 @@ router.get("/:id", async (req: Request, res: Response) => {
   }
 });
 
+// GET /api/spaces/:id/operations — Generation history for a space
+router.get("/:id/operations", async (req: Request, res: Response) => {
+  const ctx = await resolveAuthContext(req);
+  if (!ctx) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  if (!can(ctx, "spaces:read")) {
+    console.log(`⚠️ GET /spaces/${req.params.id}/operations — role ${ctx.role} lacks spaces:read`);
+    res.status(403).json({ error: "Insufficient permissions" });
+    return;
+  }
+
+  try {
+    const space = await getSpace(req.params.id as string);
+    if (!space || space.teamId !== ctx.teamId) {
+      console.log(`⚠️ GET /spaces/${req.params.id}/operations — not found or wrong team`);
+      res.status(404).json({ error: "Space not found" });
+      return;
+    }
+
+    const operations = await getOperationsBySpace(space.id);
+    console.log(`🏠 Listed ${operations.length} operations for space ${space.id}`);
+    res.json({ operations, currentOperationId: space.currentOperationId ?? null });
+  } catch (err) {
+    console.error("❌ Failed to list operations:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// POST /api/spaces/:id/operations/:operationId/activate — Roll the space back (or forward) to a generation
+router.post("/:id/operations/:operationId/activate", async (req: Request, res: Response) => {
+  const ctx = await resolveAuthContext(req);
+  if (!ctx) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  const { id, operationId } = req.params as Record<string, string>;
+  if (!can(ctx, "spaces:write")) {
+    console.log(`⚠️ POST /spaces/${id}/operations/${operationId}/activate — role ${ctx.role} lacks spaces:write`);
+    res.status(403).json({ error: "Insufficient permissions" });
+    return;
+  }
+
+  try {
+    const existing = await getSpace(id);
+    if (!existing || existing.teamId !== ctx.teamId) {
+      console.log(`⚠️ POST /spaces/${id}/operations/${operationId}/activate — not found or wrong team`);
+      res.status(404).json({ error: "Space not found" });
+      return;
+    }
+
+    const operation = await getOperationRecord(operationId);
+    if (!operation || operation.spaceId !== existing.id) {
+      console.log(`⚠️ POST /spaces/${id}/operations/${operationId}/activate — operation not found`);
+      res.status(404).json({ error: "Operation not found" });
+      return;
+    }
+
+    if (!operation.outputs) {
+      console.log(`⚠️ POST /spaces/${id}/operations/${operationId}/activate — operation has no outputs`);
+      res.status(409).json({ error: "Only successful generations can be made current" });
+      return;
+    }
+
+    if (existing.status === "generating") {
+      console.log(`⚠️ POST /spaces/${id}/operations/${operationId}/activate — generation in progress`);
+      res.status(409).json({ error: "Wait for the running generation to finish or cancel it first" });
+      return;
+    }
+
+    const space = await activateGeneration(existing.id, operation.id);
+    if (!space) {
+      res.status(409).json({ error: "Space changed while switching generations — try again" });
+      return;
+    }
+
+    await recordAudit(ctx.teamId, {
+      actor: actorFromContext(ctx),
+      action: "generation.activate",
+      target: { type: "space", id: existing.id },
+      before: { currentOperationId: existing.currentOperationId ?? null, worldId: existing.worldId ?? null },
+      after: { currentOperationId: operation.id, worldId: operation.outputs.worldId ?? null },
+    });
+    console.log(`🏠 Space ${existing.id} switched to operation ${operation.id}`);
+    res.json(space);
+  } catch (err) {
+    console.error("❌ Failed to switch generation:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// POST /api/spaces/:id/uploads — Signed URLs to upload photos straight to storage
+router.post("/:id/uploads", async (req: Request, res: Response) => {
+  const ctx = await resolveAuthContext(req);
+  if (!ctx) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  if (!can(ctx, "spaces:write")) {
+    console.log(`⚠️ POST /spaces/${req.params.id}/uploads — role ${ctx.role} lacks spaces:write`);
+    res.status(403).json({ error: "Insufficient permissions" });
+    return;
+  }
+
+  try {
+    const space = await getSpace(req.params.id as string);
+    if (!space || space.teamId !== ctx.teamId) {
+      console.log(`⚠️ POST /spaces/${req.params.id}/uploads — not found or wrong team`);
+      res.status(404).json({ error: "Space not found" });
+      return;
+    }
+
+    const parsed = createUploadSessionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      console.log(`⚠️ POST /spaces/${space.id}/uploads — validation failed`);
+      res.status(400).json({ error: parsed.error.flatten().fieldErrors });
+      return;
+    }
+
+    const { session, uploads, floorplan } = await createUploadSession(space, ctx.uid, parsed.data);
+    console.log(`🏠 Upload session ${session.id} opened for space ${space.id}`);
+    res.status(201).json({ sessionId: session.id, expiresAt: session.expiresAt, uploads, floorplan });
+  } catch (err) {
+    console.error("❌ Failed to create upload session:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// POST /api/spaces/:id/uploads/:sessionId/finalize — Verify uploaded photos and attach them to the space
+router.post("/:id/uploads/:sessionId/finalize", async (req: Request, res: Response) => {
+  const ctx = await resolveAuthContext(req);
+  if (!ctx) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  const { id, sessionId } = req.params as Record<string, string>;
+  if (!can(ctx, "spaces:write")) {
+    console.log(`⚠️ POST /spaces/${id}/uploads/${sessionId}/finalize — role ${ctx.role} lacks spaces:write`);
+    res.status(403).json({ error: "Insufficient permissions" });
+    return;
+  }
+
+  try {
+    const existing = await getSpace(id);
+    if (!existing || existing.teamId !== ctx.teamId) {
+      console.log(`⚠️ POST /spaces/${id}/uploads/${sessionId}/finalize — not found or wrong team`);
+      res.status(404).json({ error: "Space not found" });
+      return;
+    }
+
+    const session = await getUploadSession(sessionId);
+    if (!session || session.spaceId !== existing.id) {
+      console.log(`⚠️ POST /spaces/${id}/uploads/${sessionId}/finalize — session not found`);
+      res.status(404).json({ error: "Upload session not found" });
+      return;
+    }
+
+    if (session.status === "finalized") {
+      console.log(`⚠️ POST /spaces/${id}/uploads/${sessionId}/finalize — already finalized`);
+      res.status(409).json({ error: "Upload session already finalized" });
+      return;
+    }
+
+    if (isUploadSessionExpired(session)) {
+      console.log(`⚠️ POST /spaces/${id}/uploads/${sessionId}/finalize — session expired`);
+      res.status(409).json({ error: "Upload session expired — start a new one", code: "UPLOAD_SESSION_EXPIRED" });
+      return;
+    }
+
+    const result = await finalizeUploadSession(session.id);
+    if (!result) {
+      console.log(`⚠️ POST /spaces/${id}/uploads/${sessionId}/finalize — already being finalized`);
+      res.status(409).json({ error: "Upload session is already being finalized" });
+      return;
+    }
+    const summary = ({ name, status, error }: UploadFile) => ({ name, status, error });
+    const files = result.session.files.map(summary);
+    const floorplan = result.session.floorplan ? summary(result.session.floorplan) : null;
+    if (!result.space) {
+      console.log(`⚠️ POST /spaces/${id}/uploads/${sessionId}/finalize — uploads missing or invalid`);
+      res.status(409).json({
+        error: "Some files are missing or do not match what was requested",
+        code: "UPLOADS_INCOMPLETE",
+        files,
+        floorplan,
+      });
+      return;
+    }
+
+    await recordAudit(ctx.teamId, {
+      actor: actorFromContext(ctx),
+      action: "space.images.upload",
+      target: { type: "space", id: existing.id },
+      before: { imageCount: existing.imageCount },
+      after: { imageCount: result.space.imageCount, uploadSessionId: session.id },
+    });
+    console.log(`🏠 Upload session ${session.id} finalized for space ${existing.id}`);
+    res.json({ space: result.space, files, floorplan });
+  } catch (err) {
+    console.error("❌ Failed to finalize upload session:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// POST /api/spaces/:id/retry — Re-run a failed generation with its stored inputs
+router.post("/:id/retry", async (req: Request, res: Response) => {
+  const ctx = await resolveAuthContext(req);
+  if (!ctx) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  if (!can(ctx, "generate")) {
+    console.log(`⚠️ POST /spaces/${req.params.id}/retry — role ${ctx.role} lacks generate`);
+    res.status(403).json({ error: "Insufficient permissions" });
+    return;
+  }
+
+  let reservationId: string | null = null;
+
+  try {
+    const space = await getSpace(req.params.id as string);
+    if (!space || space.teamId !== ctx.teamId) {
+      console.log(`⚠️ POST /spaces/${req.params.id}/retry — not found or wrong team`);
+      res.status(404).json({ error: "Space not found" });
+      return;
+    }
+
+    if (space.status !== "failed") {
+      console.log(`⚠️ POST /spaces/${space.id}/retry — space is ${space.status}`);
+      res.status(409).json({ error: "Only failed generations can be retried" });
+      return;
+    }
+
+    // Operations recorded before inputs were stored fall back to what the
+    // space itself holds, matching how the original request was built
+    const [previous] = await getOperationsBySpace(space.id);
+    const input: GenerationInput = previous?.input ?? (
+      space.imageUrls?.length
+        ? { type: "image", textPrompt: space.generationPrompt || space.name, imageUrl: space.imageUrls[0] }
+        : { type: "text", textPrompt: space.generationPrompt || space.name }
+    );
+    const model = resolveModel(previous?.model, previous?.provider);
+    if (!model) {
+      console.log(`⚠️ POST /spaces/${space.id}/retry — model ${previous?.model} is no longer available`);
+      res.status(409).json({ error: `Model ${previous?.model} is no longer available` });
+      return;
+    }
+
+    const reservation = await reserveCredit(ctx.teamId, space.id, ctx.uid);
+    if (!reservation) {
+      console.log(`⚠️ POST /spaces/${space.id}/retry — team ${ctx.teamId} has no credits remaining`);
+      res.status(402).json({ error: "No credits remaining", code: "NO_CREDITS" });
+      return;
+    }
+    reservationId = reservation.id;
+
+    const operation = await startGeneration(space, {
+      uid: ctx.uid,
+      model,
+      input,
+      reservationId: reservation.id,
+    });
+    reservationId = null;
+
+    await recordAudit(ctx.teamId, {
+      actor: actorFromContext(ctx),
+      action: "generation.retry",
+      target: { type: "space", id: space.id },
+      before: { status: space.status, operationId: space.operationId ?? null },
+      after: { status: "generating", operationId: operation.id, model: model.model.id },
+    });
+    console.log(`🏠 Generation retried — space ${space.id}, operation ${operation.id}`);
+    res.json({ operationId: operation.id, status: "generating" });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    console.error("❌ Failed to retry generation:", message);
+    if (reservationId) {
+      await releaseCredit(reservationId, message).catch((e) =>
+        console.error(`❌ Failed to release credit reservation ${reservationId}:`, e)
+      );
+    }
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// POST /api/spaces/:id/cancel — Abandon a running generation and release its credit
+router.post("/:id/cancel", async (req: Request, res: Response) => {
+  const ctx = await resolveAuthContext(req);
+  if (!ctx) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  if (!can(ctx, "generate")) {
+    console.log(`⚠️ POST /spaces/${req.params.id}/cancel — role ${ctx.role} lacks generate`);
+    res.status(403).json({ error: "Insufficient permissions" });
+    return;
+  }
+
+  try {
+    const space = await getSpace(req.params.id as string);
+    if (!space || space.teamId !== ctx.teamId) {
+      console.log(`⚠️ POST /spaces/${req.params.id}/cancel — not found or wrong team`);
+      res.status(404).json({ error: "Space not found" });
+      return;
+    }
+
+    const result = await cancelGeneration(space.id, ctx.uid);
+    if (!result) {
+      console.log(`⚠️ POST /spaces/${space.id}/cancel — no generation running`);
+      res.status(409).json({ error: "No generation is running" });
+      return;
+    }
+
+    await recordAudit(ctx.teamId, {
+      actor: actorFromContext(ctx),
+      action: "generation.cancel",
+      target: { type: "space", id: space.id },
+      before: { status: "generating", operationId: space.operationId ?? null },
+      after: { status: "failed", operationId: result.operation?.id ?? null },
+    });
+    console.log(`🏠 Generation cancelled — space ${space.id}`);
+    res.json(result.space);
+  } catch (err) {
+    console.error("❌ Failed to cancel generation:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
 // PATCH /api/spaces/:id — Update space metadata
 router.patch("/:id", async (req: Request, res: Response) => {
   const ctx = await resolveAuthContext(req);
@@ -96,6 +526,12 @@ router.patch("/:id", async (req: Request, res: Response) => {
     return;
   }
 
+  if (!can(ctx, "spaces:write")) {
+    console.log(`⚠️ PATCH /spaces/${req.params.id} — role ${ctx.role} lacks spaces:write`);
+    res.status(403).json({ error: "Insufficient permissions" });
+    return;
+  }
+
   try {
     const existing = await getSpace(req.params.id as string);
     if (!existing || existing.teamId !== ctx.teamId) {
@@ -112,6 +548,12 @@ router.patch("/:id", async (req: Request, res: Response) => {
     }
 
     const space = await updateSpace(req.params.id as string, parsed.data);
+    await recordAudit(ctx.teamId, {
+      actor: actorFromContext(ctx),
+      action: "space.update",
+      target: { type: "space", id: existing.id },
+      ...diffFields(existing, parsed.data),
+    });
     console.log(`🏠 Space ${req.params.id} updated`);
     res.json(space);
   } catch (err) {
@@ -128,6 +570,12 @@ router.delete("/:id", async (req: Request, res: Response) => {
     return;
   }
 
+  if (!can(ctx, "spaces:delete")) {
+    console.log(`⚠️ DELETE /spaces/${req.params.id} — role ${ctx.role} lacks spaces:delete`);
+    res.status(403).json({ error: "Insufficient permissions" });
+    return;
+  }
+
   try {
     const existing = await getSpace(req.params.id as string);
     if (!existing || existing.teamId !== ctx.teamId) {
@@ -137,11 +585,23 @@ router.delete("/:id", async (req: Request, res: Response) => {
     }
 
     await deleteSpace(req.params.id as string);
+    await recordAudit(ctx.teamId, {
+      actor: actorFromContext(ctx),
+      action: "space.delete",
+      target: { type: "space", id: existing.id },
+      before: { name: existing.name, address: existing.address, status: existing.status },
+    });
 
-    // Clean up storage files (non-blocking)
+    // Clean up storage files and operation history (non-blocking)
     deleteSpaceFiles(req.params.id as string).catch((err) =>
       console.error("⚠️ Failed to clean up storage files:", err)
     );
+    deleteOperationsBySpace(req.params.id as string).catch((err) =>
+      console.error("⚠️ Failed to clean up operation history:", err)
+    );
+    deleteUploadSessionsBySpace(req.params.id as string).catch((err) =>
+      console.error("⚠️ Failed to clean up upload sessions:", err)
+    );
 
     // Cascade remove from tours
     const tours = await getAllTours(ctx.teamId);
@@ -1,12 +1,11 @@
 import { Router, Request, Response } from "express";
-import { getOperation, getWorld } from "../lib/worldlabs";
-import { getAllSpaces, updateSpace } from "../lib/storage";
+import { getSpace, getSpaceByOperationId } from "../lib/storage";
+import { getOperationRecord } from "../lib/operations";
 import { resolveAuthContext } from "../lib/auth";
-import { compressAndUploadAssets } from "../lib/compress";
 
 const router = Router();
 
-// GET /api/status/:operationId — Poll generation status
+// GET /api/status/:operationId — Report stored generation status
 router.get("/:operationId", async (req: Request, res: Response) => {
   const ctx = await resolveAuthContext(req);
   if (!ctx) {
@@ -14,65 +13,54 @@ router.get("/:operationId", async (req: Request, res: Response) => {
     return;
   }
 
-  const { operationId } = req.params as Record<string, string>;
-  console.log(`📊 Status check — operation ${operationId}`);
-
-  const spaces = await getAllSpaces(ctx.teamId);
-  const space = spaces.find((s) => s.operationId === operationId);
-  if (!space) {
-    console.log(`⚠️ GET /status/${operationId} — operation not found in team ${ctx.teamId}`);
-    res.status(404).json({ error: "Operation not found" });
-    return;
-  }
-
   try {
-    const operation = await getOperation(operationId);
+    const { operationId } = req.params as Record<string, string>;
+    console.log(`📊 Status check — operation ${operationId}`);
 
-    if (operation.done && operation.response) {
-      const worldId = operation.response.world_id;
-      const world = await getWorld(worldId);
+    const operation = await getOperationRecord(operationId);
+    const space =
+      operation && operation.teamId === ctx.teamId
+        ? await getSpace(operation.spaceId)
+        : await getSpaceByOperationId(ctx.teamId, operationId);
+    if (!space || space.teamId !== ctx.teamId) {
+      console.log(`⚠️ GET /status/${operationId} — operation not found in team ${ctx.teamId}`);
+      res.status(404).json({ error: "Operation not found" });
+      return;
+    }
 
-      console.log(`📊 Generation complete — space ${space.id}, world ${worldId}`);
-      const compressed = await compressAndUploadAssets(space.id, {
-        thumbnail_url: world.assets?.thumbnail_url,
-        panorama_url: world.assets?.panorama_url,
-        splats: world.assets?.splats,
-        mesh: world.assets?.mesh,
-      });
+    // Cancelled operations never report a result, even if WorldLabs finishes later
+    if (operation?.status === "cancelled") {
+      res.json({ done: true, status: "cancelled", error: "Generation cancelled" });
+      return;
+    }
 
-      console.log(`📦 Assets compressed and uploaded for space ${space.id}`);
-      await updateSpace(space.id, {
-        status: "ready",
-        worldId: world.world_id,
-        thumbnailUrl: compressed.thumbnailUrl,
-        panoramaUrl: compressed.panoramaUrl,
-        splatUrl: compressed.splatUrl,
-        splatUrl500k: compressed.splatUrl500k,
-        splatUrl100k: compressed.splatUrl100k,
-        meshUrl: compressed.meshUrl,
-        marbleUrl: world.world_marble_url,
+    // The space has moved on to a newer generation — report this one's outcome
+    if (operation && space.operationId !== operationId) {
+      res.json({
+        done: operation.status !== "running",
+        status: operation.status === "succeeded" ? "ready" : operation.status === "failed" ? "failed" : "generating",
+        error: operation.errorMessage,
       });
-
-      res.json({ done: true, world });
       return;
     }
 
-    if (operation.done && operation.error) {
-      console.log(`⚠️ Generation failed — space ${space.id}: ${operation.error.message}`);
-      await updateSpace(space.id, {
-        status: "failed",
-        errorMessage: operation.error.message,
-      });
+    // The generation worker owns polling and finalization — this only reports.
+    // Per-asset ingestion state shows which assets made it, including partial failures.
+    const ingestion = operation?.ingestion ?? null;
+    if (space.status === "ready") {
+      res.json({ done: true, status: space.status, space, ingestion });
+      return;
+    }
 
-      res.json({ done: true, error: operation.error.message });
+    if (space.status === "failed") {
+      res.json({ done: true, status: space.status, error: space.errorMessage || "Generation failed", ingestion });
       return;
     }
 
-    res.json({ done: false, operationId });
+    res.json({ done: false, status: space.status, operationId, ingestion });
   } catch (err) {
-    const message = err instanceof Error ? err.message : "Unknown error";
-    console.error("❌ Status check error:", message);
-    res.status(500).json({ error: message });
+    console.error("❌ Status check error:", err);
+    res.status(500).json({ error: "Internal server error" });
   }
 });
 
@@ -9,20 +9,66 @@ import {
   getTeamByInviteCode,
   addMemberToTeam,
   removeMemberFromTeam,
+  setMemberRole,
+  transferTeamOwnership,
+  getMemberRole,
+  hasPermission,
+  DEFAULT_MEMBER_ROLE,
   type Team,
 } from "../lib/teams";
 import { getAllSpaces } from "../lib/storage";
 import { getAllTours } from "../lib/tours";
 import { verifyAuthToken } from "../lib/auth";
-import { db } from "../lib/firebase";
+import {
+  getUser,
+  getUsersByIds,
+  getUserByEmail,
+  mergeUser,
+  addTeamToUser,
+  removeTeamFromUser,
+} from "../lib/users";
 import {
   createTeamSchema,
   joinTeamSchema,
   switchTeamSchema,
   updateInviteSchema,
+  updateMemberRoleSchema,
+  transferTeamSchema,
+  createInvitationSchema,
+  acceptInvitationSchema,
+  createApiKeySchema,
+  auditQuerySchema,
+  generationSettingsSchema,
 } from "../lib/schemas";
+import type { GenerationSettings } from "../lib/prompts";
+import { resolveModel } from "../lib/providers";
+import { syncStripeOwner } from "../lib/stripe";
+import {
+  INVITATION_TTL_MS,
+  generateInvitationToken,
+  isInvitationExpired,
+  toPublicInvitation,
+  getInvitation,
+  getInvitationByToken,
+  getInvitationsByTeam,
+  createInvitation,
+  updateInvitation,
+  deleteInvitation,
+  acceptInvitation,
+  type Invitation,
+} from "../lib/invitations";
+import { sendInvitationEmail } from "../lib/email";
+import { recordAudit, userActor, queryAuditLog } from "../lib/audit";
+import {
+  generateApiKey,
+  toPublicApiKey,
+  getApiKey,
+  getApiKeysByTeam,
+  createApiKey,
+  revokeApiKey,
+  type ApiKey,
+} from "../lib/apiKeys";
 import { randomUUID } from "crypto";
-import { FieldValue } from "firebase-admin/firestore";
 
 const router = Router();
 
@@ -36,8 +82,8 @@ router.get("/", async (req: Request, res: Response) => {
 
   try {
     const teams = await getTeamsByUser(decoded.uid);
-    const userDoc = await db.collection("users").doc(decoded.uid).get();
-    const activeTeamId = userDoc.data()?.activeTeamId || null;
+    const user = await getUser(decoded.uid);
+    const activeTeamId = user?.activeTeamId || null;
 
     console.log(`👥 Listed ${teams.length} teams for user ${decoded.uid}`);
     res.json({ teams, activeTeamId });
@@ -72,19 +118,22 @@ router.post("/", async (req: Request, res: Response) => {
       type: "organization",
       ownerId: decoded.uid,
       memberIds: [decoded.uid],
+      roles: { [decoded.uid]: "owner" },
       inviteCode: generateInviteCode(),
       inviteEnabled: true,
       createdAt: now,
       updatedAt: now,
     };
 
-    const batch = db.batch();
-    batch.set(db.collection("teams").doc(teamId), team);
-    batch.update(db.collection("users").doc(decoded.uid), {
-      teamIds: FieldValue.arrayUnion(teamId),
-    });
-    await batch.commit();
+    await createTeam(team);
+    await addTeamToUser(decoded.uid, teamId);
 
+    await recordAudit(teamId, {
+      actor: userActor(decoded.uid),
+      action: "team.create",
+      target: { type: "team", id: teamId },
+      after: { name: team.name },
+    });
     console.log(`👥 Team created: "${parsed.data.name}" by ${decoded.uid}`);
     res.status(201).json(team);
   } catch (err) {
@@ -116,9 +165,7 @@ router.put("/active", async (req: Request, res: Response) => {
       return;
     }
 
-    await db.collection("users").doc(decoded.uid).update({
-      activeTeamId: parsed.data.teamId,
-    });
+    await mergeUser(decoded.uid, { activeTeamId: parsed.data.teamId });
 
     console.log(`👥 Active team switched to ${parsed.data.teamId} for user ${decoded.uid}`);
     res.json({ success: true });
@@ -187,10 +234,14 @@ router.post("/join", async (req: Request, res: Response) => {
 
     await addMemberToTeam(team.id, decoded.uid);
 
-    await db.collection("users").doc(decoded.uid).update({
-      teamIds: FieldValue.arrayUnion(team.id),
-    });
+    await addTeamToUser(decoded.uid, team.id);
 
+    await recordAudit(team.id, {
+      actor: userActor(decoded.uid),
+      action: "member.join",
+      target: { type: "member", id: decoded.uid },
+      after: { role: DEFAULT_MEMBER_ROLE, via: "invite_code" },
+    });
     console.log(`👥 User ${decoded.uid} joined team ${team.id}`);
     res.json({ success: true, teamId: team.id, teamName: team.name });
   } catch (err) {
@@ -199,6 +250,96 @@ router.post("/join", async (req: Request, res: Response) => {
   }
 });
 
+// GET /api/teams/join/invitation?token=... — Preview a personal invitation (no auth)
+router.get("/join/invitation", async (req: Request, res: Response) => {
+  const token = req.query.token as string;
+  if (!token) {
+    console.log("⚠️ GET /teams/join/invitation — missing token query param");
+    res.status(400).json({ error: "token is required" });
+    return;
+  }
+
+  try {
+    const invitation = await getInvitationByToken(token);
+    if (!invitation || invitation.status !== "pending" || isInvitationExpired(invitation)) {
+      console.log("⚠️ GET /teams/join/invitation — invitation not found, used or expired");
+      res.status(404).json({ error: "Invitation not found" });
+      return;
+    }
+
+    const team = await getTeam(invitation.teamId);
+    if (!team) {
+      console.log(`⚠️ GET /teams/join/invitation — team ${invitation.teamId} no longer exists`);
+      res.status(404).json({ error: "Invitation not found" });
+      return;
+    }
+
+    console.log(`👥 Invitation preview requested: ${invitation.id}`);
+    res.json({
+      teamName: team.name,
+      memberCount: team.memberIds.length,
+      email: invitation.email,
+      role: invitation.role,
+      expiresAt: invitation.expiresAt,
+    });
+  } catch (err) {
+    console.error("❌ Failed to preview invitation:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// POST /api/teams/join/invitation — Accept a personal invitation
+router.post("/join/invitation", async (req: Request, res: Response) => {
+  const decoded = await verifyAuthToken(req);
+  if (!decoded) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  const parsed = acceptInvitationSchema.safeParse(req.body);
+  if (!parsed.success) {
+    console.log(`⚠️ POST /teams/join/invitation — validation failed for user ${decoded.uid}`);
+    res.status(400).json({ error: parsed.error.flatten().fieldErrors });
+    return;
+  }
+
+  try {
+    const invitation = await getInvitationByToken(parsed.data.token);
+    if (!invitation || invitation.status !== "pending" || isInvitationExpired(invitation)) {
+      console.log(`⚠️ POST /teams/join/invitation — invitation not found, used or expired`);
+      res.status(404).json({ error: "Invalid or expired invitation" });
+      return;
+    }
+
+    if (invitation.email !== (decoded.email || "").toLowerCase()) {
+      console.log(`⚠️ POST /teams/join/invitation — user ${decoded.uid} is not ${invitation.email}`);
+      res.status(403).json({ error: "This invitation was sent to a different email address" });
+      return;
+    }
+
+    const team = await acceptInvitation(invitation.id, decoded.uid);
+    if (!team) {
+      console.log(`⚠️ POST /teams/join/invitation — invitation ${invitation.id} no longer valid`);
+      res.status(409).json({ error: "Invalid or expired invitation" });
+      return;
+    }
+
+    await addTeamToUser(decoded.uid, team.id);
+
+    await recordAudit(team.id, {
+      actor: userActor(decoded.uid),
+      action: "invitation.accept",
+      target: { type: "invitation", id: invitation.id },
+      after: { uid: decoded.uid, role: invitation.role },
+    });
+    console.log(`👥 User ${decoded.uid} joined team ${team.id} via invitation ${invitation.id}`);
+    res.json({ success: true, teamId: team.id, teamName: team.name });
+  } catch (err) {
+    console.error("❌ Failed to accept invitation:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
 // GET /api/teams/:id — Get team details
 router.get("/:id", async (req: Request, res: Response) => {
   const decoded = await verifyAuthToken(req);
@@ -239,6 +380,13 @@ router.patch("/:id", async (req: Request, res: Response) => {
       return;
     }
 
+    const role = getMemberRole(team, decoded.uid)!;
+    if (!hasPermission(role, "team:update")) {
+      console.log(`⚠️ PATCH /teams/${req.params.id} — role ${role} lacks team:update`);
+      res.status(403).json({ error: "Insufficient permissions" });
+      return;
+    }
+
     const parsed = createTeamSchema.safeParse(req.body);
     if (!parsed.success) {
       console.log(`⚠️ PATCH /teams/${req.params.id} — validation failed`);
@@ -247,6 +395,13 @@ router.patch("/:id", async (req: Request, res: Response) => {
     }
 
     const updated = await updateTeam(req.params.id as string, { name: parsed.data.name });
+    await recordAudit(team.id, {
+      actor: userActor(decoded.uid),
+      action: "team.update",
+      target: { type: "team", id: team.id },
+      before: { name: team.name },
+      after: { name: parsed.data.name },
+    });
     console.log(`👥 Team ${req.params.id} updated: name="${parsed.data.name}"`);
     res.json(updated);
   } catch (err) {
@@ -255,6 +410,65 @@ router.patch("/:id", async (req: Request, res: Response) => {
   }
 });
 
+// PATCH /api/teams/:id/generation-settings — Default model, style, prompt template and photo quality mode (null clears a field)
+router.patch("/:id/generation-settings", async (req: Request, res: Response) => {
+  const decoded = await verifyAuthToken(req);
+  if (!decoded) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  try {
+    const team = await getTeam(req.params.id as string);
+    if (!team || !team.memberIds.includes(decoded.uid)) {
+      console.log(`⚠️ PATCH /teams/${req.params.id}/generation-settings — not found or not a member`);
+      res.status(404).json({ error: "Team not found" });
+      return;
+    }
+
+    const role = getMemberRole(team, decoded.uid)!;
+    if (!hasPermission(role, "team:update")) {
+      console.log(`⚠️ PATCH /teams/${req.params.id}/generation-settings — role ${role} lacks team:update`);
+      res.status(403).json({ error: "Insufficient permissions" });
+      return;
+    }
+
+    const parsed = generationSettingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      console.log(`⚠️ PATCH /teams/${req.params.id}/generation-settings — validation failed`);
+      res.status(400).json({ error: parsed.error.flatten().fieldErrors });
+      return;
+    }
+
+    if (parsed.data.model && !resolveModel(parsed.data.model)) {
+      console.log(`⚠️ PATCH /teams/${req.params.id}/generation-settings — unknown model ${parsed.data.model}`);
+      res.status(400).json({ error: { model: [`Unknown model: ${parsed.data.model}`] } });
+      return;
+    }
+
+    const before = team.generationSettings ?? {};
+    const settings: Record<string, unknown> = { ...before };
+    for (const [key, value] of Object.entries(parsed.data)) {
+      if (value === null) delete settings[key];
+      else if (value !== undefined) settings[key] = value;
+    }
+
+    const updated = await updateTeam(team.id, { generationSettings: settings as GenerationSettings });
+    await recordAudit(team.id, {
+      actor: userActor(decoded.uid),
+      action: "team.generation_settings.update",
+      target: { type: "team", id: team.id },
+      before: { ...before },
+      after: settings,
+    });
+    console.log(`👥 Team ${team.id} generation settings updated — keys: ${Object.keys(parsed.data).join(", ")}`);
+    res.json(updated?.generationSettings ?? {});
+  } catch (err) {
+    console.error("❌ Failed to update generation settings:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
 // DELETE /api/teams/:id — Delete team
 router.delete("/:id", async (req: Request, res: Response) => {
   const decoded = await verifyAuthToken(req);
@@ -277,7 +491,7 @@ router.delete("/:id", async (req: Request, res: Response) => {
       return;
     }
 
-    if (team.ownerId !== decoded.uid) {
+    if (!hasPermission(getMemberRole(team, decoded.uid)!, "team:delete")) {
       console.log(`⚠️ DELETE /teams/${req.params.id} — user ${decoded.uid} is not the owner`);
       res.status(403).json({ error: "Only the team owner can delete the team" });
       return;
@@ -292,6 +506,12 @@ router.delete("/:id", async (req: Request, res: Response) => {
     }
 
     await deleteTeam(req.params.id as string);
+    await recordAudit(team.id, {
+      actor: userActor(decoded.uid),
+      action: "team.delete",
+      target: { type: "team", id: team.id },
+      before: { name: team.name },
+    });
     console.log(`👥 Team ${req.params.id} deleted by ${decoded.uid}`);
     res.json({ success: true });
   } catch (err) {
@@ -316,7 +536,19 @@ router.post("/:id/invite", async (req: Request, res: Response) => {
       return;
     }
 
+    const role = getMemberRole(team, decoded.uid)!;
+    if (!hasPermission(role, "team:invite")) {
+      console.log(`⚠️ POST /teams/${req.params.id}/invite — role ${role} lacks team:invite`);
+      res.status(403).json({ error: "Insufficient permissions" });
+      return;
+    }
+
     const updated = await updateTeam(req.params.id as string, { inviteCode: generateInviteCode() });
+    await recordAudit(team.id, {
+      actor: userActor(decoded.uid),
+      action: "team.invite_code.regenerate",
+      target: { type: "team", id: team.id },
+    });
     console.log(`👥 Invite code regenerated for team ${req.params.id}`);
     res.json(updated);
   } catch (err) {
@@ -341,6 +573,13 @@ router.patch("/:id/invite", async (req: Request, res: Response) => {
       return;
     }
 
+    const role = getMemberRole(team, decoded.uid)!;
+    if (!hasPermission(role, "team:invite")) {
+      console.log(`⚠️ PATCH /teams/${req.params.id}/invite — role ${role} lacks team:invite`);
+      res.status(403).json({ error: "Insufficient permissions" });
+      return;
+    }
+
     const parsed = updateInviteSchema.safeParse(req.body);
     if (!parsed.success) {
       console.log(`⚠️ PATCH /teams/${req.params.id}/invite — validation failed`);
@@ -351,6 +590,13 @@ router.patch("/:id/invite", async (req: Request, res: Response) => {
     const updated = await updateTeam(req.params.id as string, {
       inviteEnabled: parsed.data.enabled,
     });
+    await recordAudit(team.id, {
+      actor: userActor(decoded.uid),
+      action: "team.invite_code.toggle",
+      target: { type: "team", id: team.id },
+      before: { inviteEnabled: team.inviteEnabled },
+      after: { inviteEnabled: parsed.data.enabled },
+    });
     console.log(`👥 Invite ${parsed.data.enabled ? "enabled" : "disabled"} for team ${req.params.id}`);
     res.json(updated);
   } catch (err) {
@@ -389,19 +635,14 @@ router.delete("/:id/members", async (req: Request, res: Response) => {
     }
 
     await removeMemberFromTeam(id, decoded.uid);
+    await removeTeamFromUser(decoded.uid, id);
 
-    const userRef = db.collection("users").doc(decoded.uid);
-    const userDoc = await userRef.get();
-    const userData = userDoc.data();
-
-    const personalTeamId =
-      userData?.teamIds?.find((tid: string) => tid !== id) || null;
-
-    await userRef.update({
-      teamIds: FieldValue.arrayRemove(id),
-      activeTeamId: personalTeamId,
+    await recordAudit(id, {
+      actor: userActor(decoded.uid),
+      action: "member.leave",
+      target: { type: "member", id: decoded.uid },
+      before: { role: getMemberRole(team, decoded.uid) },
     });
-
     console.log(`👥 User ${decoded.uid} left team ${id}`);
     res.json({ success: true });
   } catch (err) {
@@ -410,4 +651,779 @@ router.delete("/:id/members", async (req: Request, res: Response) => {
   }
 });
 
+// DELETE /api/teams/:id/members/:uid — Remove another member
+router.delete("/:id/members/:uid", async (req: Request, res: Response) => {
+  const decoded = await verifyAuthToken(req);
+  if (!decoded) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  try {
+    const id = req.params.id as string;
+    const targetUid = req.params.uid as string;
+    const team = await getTeam(id);
+    if (!team || !team.memberIds.includes(decoded.uid)) {
+      console.log(`⚠️ DELETE /teams/${id}/members/${targetUid} — not found or not a member`);
+      res.status(404).json({ error: "Team not found" });
+      return;
+    }
+
+    const role = getMemberRole(team, decoded.uid)!;
+    if (!hasPermission(role, "team:members")) {
+      console.log(`⚠️ DELETE /teams/${id}/members/${targetUid} — role ${role} lacks team:members`);
+      res.status(403).json({ error: "Insufficient permissions" });
+      return;
+    }
+
+    if (targetUid === decoded.uid) {
+      console.log(`⚠️ DELETE /teams/${id}/members/${targetUid} — attempted to remove self`);
+      res.status(400).json({ error: "Use DELETE /api/teams/:id/members to leave the team" });
+      return;
+    }
+
+    const targetRole = getMemberRole(team, targetUid);
+    if (!targetRole) {
+      console.log(`⚠️ DELETE /teams/${id}/members/${targetUid} — target is not a member`);
+      res.status(404).json({ error: "Member not found" });
+      return;
+    }
+
+    if (targetRole === "owner") {
+      console.log(`⚠️ DELETE /teams/${id}/members/${targetUid} — attempted to remove owner`);
+      res.status(400).json({ error: "Cannot remove the team owner" });
+      return;
+    }
+
+    if (targetRole === "admin" && role !== "owner") {
+      console.log(`⚠️ DELETE /teams/${id}/members/${targetUid} — ${role} attempted to remove an admin`);
+      res.status(403).json({ error: "Only the team owner can remove admins" });
+      return;
+    }
+
+    const updated = await removeMemberFromTeam(id, targetUid);
+    if (!updated) {
+      console.log(`⚠️ DELETE /teams/${id}/members/${targetUid} — removal rejected`);
+      res.status(400).json({ error: "Cannot remove member from this team" });
+      return;
+    }
+
+    await removeTeamFromUser(targetUid, id);
+
+    await recordAudit(id, {
+      actor: userActor(decoded.uid),
+      action: "member.remove",
+      target: { type: "member", id: targetUid },
+      before: { role: targetRole },
+    });
+    console.log(`👥 User ${targetUid} removed from team ${id} by ${decoded.uid}`);
+    res.json({ success: true });
+  } catch (err) {
+    console.error("❌ Failed to remove member:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// GET /api/teams/:id/members — List members with their roles
+router.get("/:id/members", async (req: Request, res: Response) => {
+  const decoded = await verifyAuthToken(req);
+  if (!decoded) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  try {
+    const id = req.params.id as string;
+    const team = await getTeam(id);
+    if (!team || !team.memberIds.includes(decoded.uid)) {
+      console.log(`⚠️ GET /teams/${id}/members — not found or not a member`);
+      res.status(404).json({ error: "Team not found" });
+      return;
+    }
+
+    const users = await getUsersByIds(team.memberIds);
+    const usersById = new Map(users.map((user) => [user.uid, user]));
+    const members = team.memberIds.map((uid) => {
+      const user = usersById.get(uid);
+      return {
+        uid,
+        email: user?.email || "",
+        displayName: user?.displayName || "",
+        role: getMemberRole(team, uid),
+      };
+    });
+
+    console.log(`👥 Listed ${members.length} members of team ${id}`);
+    res.json({ members });
+  } catch (err) {
+    console.error("❌ Failed to list members:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// PATCH /api/teams/:id/members/:uid — Change a member's role
+router.patch("/:id/members/:uid", async (req: Request, res: Response) => {
+  const decoded = await verifyAuthToken(req);
+  if (!decoded) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  const parsed = updateMemberRoleSchema.safeParse(req.body);
+  if (!parsed.success) {
+    console.log(`⚠️ PATCH /teams/${req.params.id}/members/${req.params.uid} — validation failed`);
+    res.status(400).json({ error: parsed.error.flatten().fieldErrors });
+    return;
+  }
+
+  try {
+    const id = req.params.id as string;
+    const targetUid = req.params.uid as string;
+    const team = await getTeam(id);
+    if (!team || !team.memberIds.includes(decoded.uid)) {
+      console.log(`⚠️ PATCH /teams/${id}/members/${targetUid} — not found or not a member`);
+      res.status(404).json({ error: "Team not found" });
+      return;
+    }
+
+    const role = getMemberRole(team, decoded.uid)!;
+    if (!hasPermission(role, "team:members")) {
+      console.log(`⚠️ PATCH /teams/${id}/members/${targetUid} — role ${role} lacks team:members`);
+      res.status(403).json({ error: "Insufficient permissions" });
+      return;
+    }
+
+    const targetRole = getMemberRole(team, targetUid);
+    if (!targetRole) {
+      console.log(`⚠️ PATCH /teams/${id}/members/${targetUid} — target is not a member`);
+      res.status(404).json({ error: "Member not found" });
+      return;
+    }
+
+    if (targetRole === "owner") {
+      console.log(`⚠️ PATCH /teams/${id}/members/${targetUid} — attempted to change owner role`);
+      res.status(400).json({ error: "Cannot change the owner's role" });
+      return;
+    }
+
+    // Only the owner can grant or revoke admin
+    if ((targetRole === "admin" || parsed.data.role === "admin") && role !== "owner") {
+      console.log(`⚠️ PATCH /teams/${id}/members/${targetUid} — ${role} attempted to change admin role`);
+      res.status(403).json({ error: "Only the team owner can manage admins" });
+      return;
+    }
+
+    const updated = await setMemberRole(id, targetUid, parsed.data.role);
+    await recordAudit(id, {
+      actor: userActor(decoded.uid),
+      action: "member.role_change",
+      target: { type: "member", id: targetUid },
+      before: { role: targetRole },
+      after: { role: parsed.data.role },
+    });
+    console.log(`👥 User ${targetUid} in team ${id} is now ${parsed.data.role} (by ${decoded.uid})`);
+    res.json(updated);
+  } catch (err) {
+    console.error("❌ Failed to update member role:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// POST /api/teams/:id/invitations — Invite someone by email
+router.post("/:id/invitations", async (req: Request, res: Response) => {
+  const decoded = await verifyAuthToken(req);
+  if (!decoded) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  const parsed = createInvitationSchema.safeParse(req.body);
+  if (!parsed.success) {
+    console.log(`⚠️ POST /teams/${req.params.id}/invitations — validation failed`);
+    res.status(400).json({ error: parsed.error.flatten().fieldErrors });
+    return;
+  }
+
+  try {
+    const id = req.params.id as string;
+    const team = await getTeam(id);
+    if (!team || !team.memberIds.includes(decoded.uid)) {
+      console.log(`⚠️ POST /teams/${id}/invitations — not found or not a member`);
+      res.status(404).json({ error: "Team not found" });
+      return;
+    }
+
+    const role = getMemberRole(team, decoded.uid)!;
+    if (!hasPermission(role, "team:invite")) {
+      console.log(`⚠️ POST /teams/${id}/invitations — role ${role} lacks team:invite`);
+      res.status(403).json({ error: "Insufficient permissions" });
+      return;
+    }
+
+    if (team.type === "personal") {
+      console.log(`⚠️ POST /teams/${id}/invitations — attempted to invite into personal team`);
+      res.status(400).json({ error: "Cannot invite members to a personal team" });
+      return;
+    }
+
+    if (parsed.data.role === "admin" && role !== "owner") {
+      console.log(`⚠️ POST /teams/${id}/invitations — ${role} attempted to invite an admin`);
+      res.status(403).json({ error: "Only the team owner can invite admins" });
+      return;
+    }
+
+    const email = parsed.data.email.toLowerCase();
+
+    const existingUser = await getUserByEmail(email);
+    if (existingUser && team.memberIds.includes(existingUser.uid)) {
+      console.log(`⚠️ POST /teams/${id}/invitations — ${email} is already a member`);
+      res.status(409).json({ error: "Already a member" });
+      return;
+    }
+
+    const invitations = await getInvitationsByTeam(id);
+    const pending = invitations.find(
+      (inv) => inv.email === email && inv.status === "pending" && !isInvitationExpired(inv)
+    );
+    if (pending) {
+      console.log(`⚠️ POST /teams/${id}/invitations — ${email} already has pending invitation ${pending.id}`);
+      res.status(409).json({ error: "Invitation already pending", invitationId: pending.id });
+      return;
+    }
+
+    const now = new Date();
+    const { token, tokenHash } = generateInvitationToken();
+    const invitation: Invitation = {
+      id: randomUUID(),
+      teamId: id,
+      email,
+      role: parsed.data.role,
+      tokenHash,
+      status: "pending",
+      invitedBy: decoded.uid,
+      expiresAt: new Date(now.getTime() + INVITATION_TTL_MS).toISOString(),
+      lastSentAt: now.toISOString(),
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+
+    await createInvitation(invitation);
+    try {
+      await sendInvitationEmail({
+        to: email,
+        teamName: team.name,
+        inviterName: decoded.name || decoded.email || "A teammate",
+        role: invitation.role,
+        token,
+        expiresAt: invitation.expiresAt,
+      });
+    } catch (err) {
+      // Nobody can accept an invitation that never arrived, and left pending
+      // it would turn a retry into a 409
+      await deleteInvitation(invitation.id);
+      throw err;
+    }
+
+    await recordAudit(id, {
+      actor: userActor(decoded.uid),
+      action: "invitation.create",
+      target: { type: "invitation", id: invitation.id },
+      after: { email, role: invitation.role, expiresAt: invitation.expiresAt },
+    });
+    console.log(`👥 Invitation ${invitation.id} sent to ${email} for team ${id}`);
+    res.status(201).json(toPublicInvitation(invitation));
+  } catch (err) {
+    console.error("❌ Failed to create invitation:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// GET /api/teams/:id/invitations?status=... — List invitations
+router.get("/:id/invitations", async (req: Request, res: Response) => {
+  const decoded = await verifyAuthToken(req);
+  if (!decoded) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  try {
+    const id = req.params.id as string;
+    const team = await getTeam(id);
+    if (!team || !team.memberIds.includes(decoded.uid)) {
+      console.log(`⚠️ GET /teams/${id}/invitations — not found or not a member`);
+      res.status(404).json({ error: "Team not found" });
+      return;
+    }
+
+    const role = getMemberRole(team, decoded.uid)!;
+    if (!hasPermission(role, "team:invite")) {
+      console.log(`⚠️ GET /teams/${id}/invitations — role ${role} lacks team:invite`);
+      res.status(403).json({ error: "Insufficient permissions" });
+      return;
+    }
+
+    const status = (req.query.status as string | undefined) || "pending";
+    const invitations = (await getInvitationsByTeam(id))
+      .map((inv) => ({
+        ...toPublicInvitation(inv),
+        expired: inv.status === "pending" && isInvitationExpired(inv),
+      }))
+      .filter((inv) => status === "all" || inv.status === status);
+
+    console.log(`👥 Listed ${invitations.length} ${status} invitations for team ${id}`);
+    res.json({ invitations });
+  } catch (err) {
+    console.error("❌ Failed to list invitations:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// POST /api/teams/:id/invitations/:invitationId/resend — Re-send with a fresh token
+router.post("/:id/invitations/:invitationId/resend", async (req: Request, res: Response) => {
+  const decoded = await verifyAuthToken(req);
+  if (!decoded) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  try {
+    const id = req.params.id as string;
+    const invitationId = req.params.invitationId as string;
+    const team = await getTeam(id);
+    if (!team || !team.memberIds.includes(decoded.uid)) {
+      console.log(`⚠️ POST /teams/${id}/invitations/${invitationId}/resend — not found or not a member`);
+      res.status(404).json({ error: "Team not found" });
+      return;
+    }
+
+    const role = getMemberRole(team, decoded.uid)!;
+    if (!hasPermission(role, "team:invite")) {
+      console.log(`⚠️ POST /teams/${id}/invitations/${invitationId}/resend — role ${role} lacks team:invite`);
+      res.status(403).json({ error: "Insufficient permissions" });
+      return;
+    }
+
+    const invitation = await getInvitation(invitationId);
+    if (!invitation || invitation.teamId !== id || invitation.status !== "pending") {
+      console.log(`⚠️ POST /teams/${id}/invitations/${invitationId}/resend — not found or not pending`);
+      res.status(404).json({ error: "Invitation not found" });
+      return;
+    }
+
+    // A fresh token invalidates the previously emailed link
+    const now = new Date();
+    const { token, tokenHash } = generateInvitationToken();
+    const updated = await updateInvitation(invitationId, {
+      tokenHash,
+      expiresAt: new Date(now.getTime() + INVITATION_TTL_MS).toISOString(),
+      lastSentAt: now.toISOString(),
+    });
+
+    await sendInvitationEmail({
+      to: invitation.email,
+      teamName: team.name,
+      inviterName: decoded.name || decoded.email || "A teammate",
+      role: invitation.role,
+      token,
+      expiresAt: updated!.expiresAt,
+    });
+
+    await recordAudit(id, {
+      actor: userActor(decoded.uid),
+      action: "invitation.resend",
+      target: { type: "invitation", id: invitationId },
+      before: { expiresAt: invitation.expiresAt },
+      after: { expiresAt: updated!.expiresAt },
+    });
+    console.log(`👥 Invitation ${invitationId} re-sent to ${invitation.email}`);
+    res.json(toPublicInvitation(updated!));
+  } catch (err) {
+    console.error("❌ Failed to resend invitation:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// DELETE /api/teams/:id/invitations/:invitationId — Revoke a pending invitation
+router.delete("/:id/invitations/:invitationId", async (req: Request, res: Response) => {
+  const decoded = await verifyAuthToken(req);
+  if (!decoded) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  try {
+    const id = req.params.id as string;
+    const invitationId = req.params.invitationId as string;
+    const team = await getTeam(id);
+    if (!team || !team.memberIds.includes(decoded.uid)) {
+      console.log(`⚠️ DELETE /teams/${id}/invitations/${invitationId} — not found or not a member`);
+      res.status(404).json({ error: "Team not found" });
+      return;
+    }
+
+    const role = getMemberRole(team, decoded.uid)!;
+    if (!hasPermission(role, "team:invite")) {
+      console.log(`⚠️ DELETE /teams/${id}/invitations/${invitationId} — role ${role} lacks team:invite`);
+      res.status(403).json({ error: "Insufficient permissions" });
+      return;
+    }
+
+    const invitation = await getInvitation(invitationId);
+    if (!invitation || invitation.teamId !== id || invitation.status !== "pending") {
+      console.log(`⚠️ DELETE /teams/${id}/invitations/${invitationId} — not found or not pending`);
+      res.status(404).json({ error: "Invitation not found" });
+      return;
+    }
+
+    const updated = await updateInvitation(invitationId, { status: "revoked" });
+    await recordAudit(id, {
+      actor: userActor(decoded.uid),
+      action: "invitation.revoke",
+      target: { type: "invitation", id: invitationId },
+      before: { email: invitation.email, status: invitation.status },
+      after: { status: "revoked" },
+    });
+    console.log(`👥 Invitation ${invitationId} revoked by ${decoded.uid}`);
+    res.json(toPublicInvitation(updated!));
+  } catch (err) {
+    console.error("❌ Failed to revoke invitation:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// POST /api/teams/:id/api-keys — Create an API key (raw key is returned once)
+router.post("/:id/api-keys", async (req: Request, res: Response) => {
+  const decoded = await verifyAuthToken(req);
+  if (!decoded) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  const parsed = createApiKeySchema.safeParse(req.body);
+  if (!parsed.success) {
+    console.log(`⚠️ POST /teams/${req.params.id}/api-keys — validation failed`);
+    res.status(400).json({ error: parsed.error.flatten().fieldErrors });
+    return;
+  }
+
+  try {
+    const id = req.params.id as string;
+    const team = await getTeam(id);
+    if (!team || !team.memberIds.includes(decoded.uid)) {
+      console.log(`⚠️ POST /teams/${id}/api-keys — not found or not a member`);
+      res.status(404).json({ error: "Team not found" });
+      return;
+    }
+
+    const role = getMemberRole(team, decoded.uid)!;
+    if (!hasPermission(role, "team:api-keys")) {
+      console.log(`⚠️ POST /teams/${id}/api-keys — role ${role} lacks team:api-keys`);
+      res.status(403).json({ error: "Insufficient permissions" });
+      return;
+    }
+
+    const { key, prefix, keyHash } = generateApiKey();
+    const apiKey: ApiKey = {
+      id: randomUUID(),
+      teamId: id,
+      name: parsed.data.name,
+      prefix,
+      keyHash,
+      scopes: [...new Set(parsed.data.scopes)],
+      createdBy: decoded.uid,
+      createdAt: new Date().toISOString(),
+      lastUsedAt: null,
+      lastUsedIp: null,
+      revokedAt: null,
+      revokedBy: null,
+    };
+
+    await createApiKey(apiKey);
+    await recordAudit(id, {
+      actor: userActor(decoded.uid),
+      action: "api_key.create",
+      target: { type: "api_key", id: apiKey.id },
+      after: { name: apiKey.name, prefix, scopes: apiKey.scopes },
+    });
+    console.log(`👥 API key ${apiKey.id} (${prefix}…) created for team ${id} by ${decoded.uid}`);
+    res.status(201).json({ ...toPublicApiKey(apiKey), key });
+  } catch (err) {
+    console.error("❌ Failed to create API key:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// GET /api/teams/:id/api-keys — List API keys
+router.get("/:id/api-keys", async (req: Request, res: Response) => {
+  const decoded = await verifyAuthToken(req);
+  if (!decoded) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  try {
+    const id = req.params.id as string;
+    const team = await getTeam(id);
+    if (!team || !team.memberIds.includes(decoded.uid)) {
+      console.log(`⚠️ GET /teams/${id}/api-keys — not found or not a member`);
+      res.status(404).json({ error: "Team not found" });
+      return;
+    }
+
+    const role = getMemberRole(team, decoded.uid)!;
+    if (!hasPermission(role, "team:api-keys")) {
+      console.log(`⚠️ GET /teams/${id}/api-keys — role ${role} lacks team:api-keys`);
+      res.status(403).json({ error: "Insufficient permissions" });
+      return;
+    }
+
+    const apiKeys = (await getApiKeysByTeam(id)).map(toPublicApiKey);
+    console.log(`👥 Listed ${apiKeys.length} API keys for team ${id}`);
+    res.json({ apiKeys });
+  } catch (err) {
+    console.error("❌ Failed to list API keys:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// DELETE /api/teams/:id/api-keys/:keyId — Revoke an API key
+router.delete("/:id/api-keys/:keyId", async (req: Request, res: Response) => {
+  const decoded = await verifyAuthToken(req);
+  if (!decoded) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  try {
+    const id = req.params.id as string;
+    const keyId = req.params.keyId as string;
+    const team = await getTeam(id);
+    if (!team || !team.memberIds.includes(decoded.uid)) {
+      console.log(`⚠️ DELETE /teams/${id}/api-keys/${keyId} — not found or not a member`);
+      res.status(404).json({ error: "Team not found" });
+      return;
+    }
+
+    const role = getMemberRole(team, decoded.uid)!;
+    if (!hasPermission(role, "team:api-keys")) {
+      console.log(`⚠️ DELETE /teams/${id}/api-keys/${keyId} — role ${role} lacks team:api-keys`);
+      res.status(403).json({ error: "Insufficient permissions" });
+      return;
+    }
+
+    const apiKey = await getApiKey(keyId);
+    if (!apiKey || apiKey.teamId !== id || apiKey.revokedAt) {
+      console.log(`⚠️ DELETE /teams/${id}/api-keys/${keyId} — not found or already revoked`);
+      res.status(404).json({ error: "API key not found" });
+      return;
+    }
+
+    const revoked = await revokeApiKey(keyId, decoded.uid);
+    await recordAudit(id, {
+      actor: userActor(decoded.uid),
+      action: "api_key.revoke",
+      target: { type: "api_key", id: keyId },
+      before: { name: apiKey.name, prefix: apiKey.prefix },
+    });
+    console.log(`👥 API key ${keyId} revoked by ${decoded.uid}`);
+    res.json(toPublicApiKey(revoked!));
+  } catch (err) {
+    console.error("❌ Failed to revoke API key:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// GET /api/teams/:id/audit — Query the team audit log (newest first)
+router.get("/:id/audit", async (req: Request, res: Response) => {
+  const decoded = await verifyAuthToken(req);
+  if (!decoded) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  const parsed = auditQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    console.log(`⚠️ GET /teams/${req.params.id}/audit — invalid query`);
+    res.status(400).json({ error: parsed.error.flatten().fieldErrors });
+    return;
+  }
+
+  try {
+    const id = req.params.id as string;
+    const team = await getTeam(id);
+    if (!team || !team.memberIds.includes(decoded.uid)) {
+      console.log(`⚠️ GET /teams/${id}/audit — not found or not a member`);
+      res.status(404).json({ error: "Team not found" });
+      return;
+    }
+
+    const role = getMemberRole(team, decoded.uid)!;
+    if (!hasPermission(role, "team:audit")) {
+      console.log(`⚠️ GET /teams/${id}/audit — role ${role} lacks team:audit`);
+      res.status(403).json({ error: "Insufficient permissions" });
+      return;
+    }
+
+    const result = await queryAuditLog(id, parsed.data);
+    console.log(`👥 Audit log for team ${id} — ${result.entries.length} entries`);
+    res.json(result);
+  } catch (err) {
+    console.error("❌ Failed to query audit log:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// POST /api/teams/:id/transfer — Nominate a member as the new owner
+router.post("/:id/transfer", async (req: Request, res: Response) => {
+  const decoded = await verifyAuthToken(req);
+  if (!decoded) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  const parsed = transferTeamSchema.safeParse(req.body);
+  if (!parsed.success) {
+    console.log(`⚠️ POST /teams/${req.params.id}/transfer — validation failed`);
+    res.status(400).json({ error: parsed.error.flatten().fieldErrors });
+    return;
+  }
+
+  try {
+    const id = req.params.id as string;
+    const team = await getTeam(id);
+    if (!team || !team.memberIds.includes(decoded.uid)) {
+      console.log(`⚠️ POST /teams/${id}/transfer — not found or not a member`);
+      res.status(404).json({ error: "Team not found" });
+      return;
+    }
+
+    if (team.type === "personal") {
+      console.log(`⚠️ POST /teams/${id}/transfer — attempted to transfer personal team`);
+      res.status(400).json({ error: "Cannot transfer personal team" });
+      return;
+    }
+
+    if (team.ownerId !== decoded.uid) {
+      console.log(`⚠️ POST /teams/${id}/transfer — user ${decoded.uid} is not the owner`);
+      res.status(403).json({ error: "Only the team owner can transfer the team" });
+      return;
+    }
+
+    const { toUid } = parsed.data;
+    if (toUid === decoded.uid || !team.memberIds.includes(toUid)) {
+      console.log(`⚠️ POST /teams/${id}/transfer — ${toUid} is not another member`);
+      res.status(400).json({ error: "New owner must be another member of the team" });
+      return;
+    }
+
+    const updated = await updateTeam(id, {
+      pendingTransfer: {
+        toUid,
+        requestedBy: decoded.uid,
+        requestedAt: new Date().toISOString(),
+      },
+    });
+
+    await recordAudit(id, {
+      actor: userActor(decoded.uid),
+      action: "ownership.transfer_request",
+      target: { type: "member", id: toUid },
+    });
+    console.log(`👥 Ownership transfer of team ${id} offered to ${toUid}`);
+    res.json(updated);
+  } catch (err) {
+    console.error("❌ Failed to start transfer:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// POST /api/teams/:id/transfer/accept — Nominee accepts ownership
+router.post("/:id/transfer/accept", async (req: Request, res: Response) => {
+  const decoded = await verifyAuthToken(req);
+  if (!decoded) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  try {
+    const id = req.params.id as string;
+    const team = await getTeam(id);
+    if (!team || !team.memberIds.includes(decoded.uid)) {
+      console.log(`⚠️ POST /teams/${id}/transfer/accept — not found or not a member`);
+      res.status(404).json({ error: "Team not found" });
+      return;
+    }
+
+    if (team.pendingTransfer?.toUid !== decoded.uid) {
+      console.log(`⚠️ POST /teams/${id}/transfer/accept — no transfer pending for ${decoded.uid}`);
+      res.status(404).json({ error: "No pending transfer" });
+      return;
+    }
+
+    let updated = await transferTeamOwnership(id, decoded.uid);
+    if (!updated) {
+      console.log(`⚠️ POST /teams/${id}/transfer/accept — transfer rejected`);
+      res.status(409).json({ error: "Transfer is no longer valid" });
+      return;
+    }
+
+    // Billing stays on the team — point the Stripe customer at the new owner.
+    // If Stripe fails, the returned team carries stripeOwnerSyncPending.
+    if (updated.stripeCustomerId || updated.stripeSubscriptionId) {
+      updated = await syncStripeOwner(updated);
+    }
+
+    await recordAudit(id, {
+      actor: userActor(decoded.uid),
+      action: "ownership.transfer_accept",
+      target: { type: "team", id },
+      before: { ownerId: team.ownerId },
+      after: { ownerId: decoded.uid },
+    });
+    console.log(`👥 Team ${id} ownership transferred to ${decoded.uid}`);
+    res.json(updated);
+  } catch (err) {
+    console.error("❌ Failed to accept transfer:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// DELETE /api/teams/:id/transfer — Owner cancels or nominee declines
+router.delete("/:id/transfer", async (req: Request, res: Response) => {
+  const decoded = await verifyAuthToken(req);
+  if (!decoded) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  try {
+    const id = req.params.id as string;
+    const team = await getTeam(id);
+    if (!team || !team.memberIds.includes(decoded.uid)) {
+      console.log(`⚠️ DELETE /teams/${id}/transfer — not found or not a member`);
+      res.status(404).json({ error: "Team not found" });
+      return;
+    }
+
+    const pending = team.pendingTransfer;
+    if (!pending || (decoded.uid !== team.ownerId && decoded.uid !== pending.toUid)) {
+      console.log(`⚠️ DELETE /teams/${id}/transfer — no transfer pending for ${decoded.uid}`);
+      res.status(404).json({ error: "No pending transfer" });
+      return;
+    }
+
+    const updated = await updateTeam(id, { pendingTransfer: null });
+    await recordAudit(id, {
+      actor: userActor(decoded.uid),
+      action: "ownership.transfer_cancel",
+      target: { type: "member", id: pending.toUid },
+    });
+    console.log(`👥 Ownership transfer of team ${id} withdrawn by ${decoded.uid}`);
+    res.json(updated);
+  } catch (err) {
+    console.error("❌ Failed to cancel transfer:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
 export default router;
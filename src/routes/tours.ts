@@ -10,7 +10,8 @@ import {
   type Tour,
 } from "../lib/tours";
 import { getSpacesByIds } from "../lib/storage";
-import { resolveAuthContext } from "../lib/auth";
+import { resolveAuthContext, can } from "../lib/auth";
+import { recordAudit, actorFromContext, diffFields } from "../lib/audit";
 import { createTourSchema, updateTourSchema, addRoomSchema } from "../lib/schemas";
 import { randomUUID, randomBytes } from "crypto";
 
@@ -24,6 +25,12 @@ router.get("/", async (req: Request, res: Response) => {
     return;
   }
 
+  if (!can(ctx, "tours:read")) {
+    console.log(`⚠️ GET /tours — role ${ctx.role} lacks tours:read`);
+    res.status(403).json({ error: "Insufficient permissions" });
+    return;
+  }
+
   try {
     const tours = await getAllTours(ctx.teamId);
 
@@ -54,6 +61,12 @@ router.post("/", async (req: Request, res: Response) => {
     return;
   }
 
+  if (!can(ctx, "tours:write")) {
+    console.log(`⚠️ POST /tours — role ${ctx.role} lacks tours:write`);
+    res.status(403).json({ error: "Insufficient permissions" });
+    return;
+  }
+
   const parsed = createTourSchema.safeParse(req.body);
   if (!parsed.success) {
     console.log(`⚠️ POST /tours — validation failed for team ${ctx.teamId}`);
@@ -79,6 +92,12 @@ router.post("/", async (req: Request, res: Response) => {
     };
 
     await createTour(tour);
+    await recordAudit(ctx.teamId, {
+      actor: actorFromContext(ctx),
+      action: "tour.create",
+      target: { type: "tour", id: tour.id },
+      after: { name, address, description, isPublic: tour.isPublic },
+    });
     console.log(`🗺️ Tour created: "${name}" in team ${ctx.teamId}`);
     res.status(201).json(tour);
   } catch (err) {
@@ -95,6 +114,12 @@ router.get("/:id", async (req: Request, res: Response) => {
     return;
   }
 
+  if (!can(ctx, "tours:read")) {
+    console.log(`⚠️ GET /tours/${req.params.id} — role ${ctx.role} lacks tours:read`);
+    res.status(403).json({ error: "Insufficient permissions" });
+    return;
+  }
+
   try {
     const tour = await getTour(req.params.id as string);
     if (!tour || tour.teamId !== ctx.teamId) {
@@ -144,7 +169,22 @@ router.patch("/:id", async (req: Request, res: Response) => {
       return;
     }
 
+    // Toggling visibility alone is sharing; anything else is an edit
+    const shareOnly = Object.keys(parsed.data).every((key) => key === "isPublic");
+    const permission = shareOnly ? "tours:share" : "tours:write";
+    if (!can(ctx, permission)) {
+      console.log(`⚠️ PATCH /tours/${req.params.id} — role ${ctx.role} lacks ${permission}`);
+      res.status(403).json({ error: "Insufficient permissions" });
+      return;
+    }
+
     const tour = await updateTour(req.params.id as string, parsed.data);
+    await recordAudit(ctx.teamId, {
+      actor: actorFromContext(ctx),
+      action: "tour.update",
+      target: { type: "tour", id: existing.id },
+      ...diffFields(existing, parsed.data),
+    });
     console.log(`🗺️ Tour ${req.params.id} updated`);
     res.json(tour);
   } catch (err) {
@@ -161,6 +201,12 @@ router.delete("/:id", async (req: Request, res: Response) => {
     return;
   }
 
+  if (!can(ctx, "tours:delete")) {
+    console.log(`⚠️ DELETE /tours/${req.params.id} — role ${ctx.role} lacks tours:delete`);
+    res.status(403).json({ error: "Insufficient permissions" });
+    return;
+  }
+
   try {
     const existing = await getTour(req.params.id as string);
     if (!existing || existing.teamId !== ctx.teamId) {
@@ -170,6 +216,12 @@ router.delete("/:id", async (req: Request, res: Response) => {
     }
 
     await deleteTour(req.params.id as string);
+    await recordAudit(ctx.teamId, {
+      actor: actorFromContext(ctx),
+      action: "tour.delete",
+      target: { type: "tour", id: existing.id },
+      before: { name: existing.name, isPublic: existing.isPublic, roomCount: existing.rooms.length },
+    });
     console.log(`🗺️ Tour ${req.params.id} deleted`);
     res.json({ success: true });
   } catch (err) {
@@ -186,6 +238,12 @@ router.post("/:id/rooms", async (req: Request, res: Response) => {
     return;
   }
 
+  if (!can(ctx, "tours:write")) {
+    console.log(`⚠️ POST /tours/${req.params.id}/rooms — role ${ctx.role} lacks tours:write`);
+    res.status(403).json({ error: "Insufficient permissions" });
+    return;
+  }
+
   const parsed = addRoomSchema.safeParse(req.body);
   if (!parsed.success) {
     console.log(`⚠️ POST /tours/${req.params.id}/rooms — validation failed`);
@@ -205,6 +263,12 @@ router.post("/:id/rooms", async (req: Request, res: Response) => {
 
     const order = tour.rooms.length;
     const updated = await addRoomToTour(req.params.id as string, { spaceId, label, order });
+    await recordAudit(ctx.teamId, {
+      actor: actorFromContext(ctx),
+      action: "tour.room.add",
+      target: { type: "tour", id: tour.id },
+      after: { spaceId, label, order },
+    });
     console.log(`🗺️ Room added to tour ${req.params.id}: "${label}" (space ${spaceId})`);
     res.json(updated);
   } catch (err) {
@@ -221,6 +285,12 @@ router.delete("/:id/rooms", async (req: Request, res: Response) => {
     return;
   }
 
+  if (!can(ctx, "tours:write")) {
+    console.log(`⚠️ DELETE /tours/${req.params.id}/rooms — role ${ctx.role} lacks tours:write`);
+    res.status(403).json({ error: "Insufficient permissions" });
+    return;
+  }
+
   try {
     const tour = await getTour(req.params.id as string);
     if (!tour || tour.teamId !== ctx.teamId) {
@@ -237,6 +307,12 @@ router.delete("/:id/rooms", async (req: Request, res: Response) => {
     }
 
     const updated = await removeRoomFromTour(req.params.id as string, spaceId);
+    await recordAudit(ctx.teamId, {
+      actor: actorFromContext(ctx),
+      action: "tour.room.remove",
+      target: { type: "tour", id: tour.id },
+      before: tour.rooms.find((r) => r.spaceId === spaceId) || { spaceId },
+    });
     console.log(`🗺️ Room removed from tour ${req.params.id}: space ${spaceId}`);
     res.json(updated);
   } catch (err) {